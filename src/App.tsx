@@ -1,9 +1,10 @@
-import React, { useState } from 'react';
+import React from 'react';
 import DateTimeRangePicker from './DateTimeRangePicker';
-import { DateTimeRange } from './types';
+import { useRangeSync } from './useRangeSync';
 
 const App: React.FC = () => {
-  const [value, setValue] = useState<DateTimeRange>({
+  // Mirrored into ?range= so the demo can be shared as a link.
+  const [value, setValue] = useRangeSync({
     start: null,
     end: null,
     timezone: 'America/New_York',
@@ -20,10 +21,8 @@ const App: React.FC = () => {
           max: new Date(),
         }}
         presets={[
-          {
-            label: 'Last 24h',
-            getRange: (now) => ({ start: new Date(now.getTime() - 24 * 60 * 60 * 1000), end: now }),
-          },
+          // Rolling, so a shared link keeps meaning "the last 24 hours".
+          { label: 'Last 24h', relative: { start: 'now-24h', end: 'now' } },
         ]}
       />
     </div>
@@ -0,0 +1,365 @@
+import React, { useEffect, useId, useImperativeHandle, useLayoutEffect, useRef, useState } from 'react';
+import { getDaysInMonth } from 'date-fns';
+import DateTimeRangePicker, { DateTimeRangePickerHandle } from './DateTimeRangePicker';
+import { DstPolicy, HourCycle, Messages } from './types';
+import { DEFAULT_DST_POLICY, fromWallTime, syncComparison, toWallTime } from './utils';
+import { defaultMessages, getErrorMessage, getHourCycle, getTextDirection } from './i18n';
+import { useRangeValidation } from './useRangeValidation';
+import { useDraftRange } from './useDraftRange';
+import { useRangeFormField } from './useRangeFormField';
+
+type PickerProps = React.ComponentPropsWithoutRef<typeof DateTimeRangePicker>;
+type Endpoint = 'start' | 'end';
+type Segment = 'year' | 'month' | 'day' | 'hour' | 'minute' | 'meridiem';
+type SegmentValues = Record<Segment, string>;
+
+interface DateTimeRangeInputProps extends Omit<PickerProps, 'validation'> {
+  id?: string | undefined;
+}
+
+const ENDPOINTS: Endpoint[] = ['start', 'end'];
+const SEGMENT_LENGTH: Record<Segment, number> = { year: 4, month: 2, day: 2, hour: 2, minute: 2, meridiem: 2 };
+const SEGMENT_PLACEHOLDER: Record<Segment, string> = { year: 'yyyy', month: 'mm', day: 'dd', hour: 'hh', minute: 'mm', meridiem: '--' };
+const SEGMENT_SEPARATOR: Record<Segment, string> = { year: '', month: '-', day: '-', hour: ' ', minute: ':', meridiem: ' ' };
+const FOCUSABLE = 'button:not([disabled]), input:not([disabled]), select:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+const pad = (n: number, length = 2) => String(n).padStart(length, '0');
+
+const getBounds = (segment: Segment, hourCycle: HourCycle): [number, number] => {
+  if (segment === 'year') return [1, 9999];
+  if (segment === 'month') return [1, 12];
+  if (segment === 'day') return [1, 31];
+  if (segment === 'hour') return hourCycle === 12 ? [1, 12] : [0, 23];
+  return [0, 59];
+};
+
+const toSegments = (date: Date | null, tz: string, hourCycle: HourCycle): SegmentValues => {
+  if (!date) return { year: '', month: '', day: '', hour: '', minute: '', meridiem: '' };
+  const wall = new Date(toWallTime(date, tz));
+  const hour = wall.getUTCHours();
+  return {
+    year: pad(wall.getUTCFullYear(), 4),
+    month: pad(wall.getUTCMonth() + 1),
+    day: pad(wall.getUTCDate()),
+    hour: pad(hourCycle === 12 ? hour % 12 || 12 : hour),
+    minute: pad(wall.getUTCMinutes()),
+    meridiem: hour < 12 ? 'am' : 'pm',
+  };
+};
+
+/**
+ * The instant the segments describe in `tz`, or null while any of them is incomplete
+ * or out of range, or the time is one a DST change skips or repeats and `policy` rejects.
+ */
+const fromSegments = (segments: SegmentValues, tz: string, hourCycle: HourCycle, policy: DstPolicy): Date | null => {
+  const fields = ['year', 'month', 'day', 'hour', 'minute'] as const;
+  if (fields.some(segment => segments[segment].length !== SEGMENT_LENGTH[segment])) return null;
+  if (hourCycle === 12 && segments.meridiem !== 'am' && segments.meridiem !== 'pm') return null;
+  const [year, month, day, hour, minute] = fields.map(segment => Number(segments[segment])) as [number, number, number, number, number];
+  const inBounds = (segment: Segment, n: number) => n >= getBounds(segment, hourCycle)[0] && n <= getBounds(segment, hourCycle)[1];
+  if (!inBounds('year', year) || !inBounds('month', month) || !inBounds('hour', hour) || !inBounds('minute', minute)) return null;
+  if (day < 1 || day > getDaysInMonth(new Date(year, month - 1))) return null;
+  const hour24 = hourCycle === 12 ? (hour % 12) + (segments.meridiem === 'pm' ? 12 : 0) : hour;
+  const wall = new Date(0);
+  wall.setUTCFullYear(year, month - 1, day);
+  wall.setUTCHours(hour24, minute);
+  return fromWallTime(wall.getTime(), tz, policy);
+};
+
+/**
+ * A compact field for toolbars and forms. Each date and time part of the range
+ * is typed into its own masked segment (arrow keys step it), and the button
+ * opens the full DateTimeRangePicker in a popover that keeps focus inside it.
+ * Escape, Apply and Cancel close the popover and return focus to the field;
+ * clicking outside just closes it. The ref has the same shape as the picker's,
+ * so form libraries can register the field the same way.
+ */
+const DateTimeRangeInput = React.forwardRef<DateTimeRangePickerHandle, DateTimeRangeInputProps>(({
+  id,
+  value: valueProp,
+  defaultValue,
+  onChange,
+  onApply,
+  onCancel,
+  name,
+  form,
+  required,
+  formValueFormat,
+  ...pickerProps
+}, ref) => {
+  const { constraints, locale, now = () => new Date() } = pickerProps;
+  // The segments always edit the committed range; with commitMode="apply" the popover keeps its own draft.
+  const { value, change, restore } = useDraftRange({ value: valueProp, defaultValue, onChange });
+  const tz = value.timezone;
+  const t: Messages = { ...defaultMessages, ...pickerProps.messages };
+  const clock = pickerProps.hourCycle ?? (locale ? getHourCycle(locale) : 24);
+  const order: Segment[] = clock === 12 ? ['year', 'month', 'day', 'hour', 'minute', 'meridiem'] : ['year', 'month', 'day', 'hour', 'minute'];
+
+  const [segments, setSegments] = useState(() => ({ start: toSegments(value.start, tz, clock), end: toSegments(value.end, tz, clock) }));
+  const [open, setOpen] = useState(false);
+  const [placement, setPlacement] = useState<'below' | 'above'>('below');
+  const [pendingFocus, setPendingFocus] = useState<string | null>(null);
+  // Whether the popover picker holds an unapplied draft (commitMode="apply"); it is dropped with the popover.
+  const [draftDirty, setDraftDirty] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const popoverRef = useRef<HTMLDivElement>(null);
+  const pickerRef = useRef<DateTimeRangePickerHandle>(null);
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const segmentRefs = useRef(new Map<string, HTMLInputElement>());
+  const idPrefix = useId();
+  // Validated here, since the picker is only mounted while the popover is open, and handed to it.
+  const { errors, pending } = useRangeValidation(value, constraints);
+
+  // Half-typed segments are kept until they form a date; any change to the value itself replaces them.
+  const startTime = value.start?.getTime() ?? null;
+  const endTime = value.end?.getTime() ?? null;
+  useEffect(() => {
+    const toDate = (time: number | null) => (time === null ? null : new Date(time));
+    setSegments({ start: toSegments(toDate(startTime), tz, clock), end: toSegments(toDate(endTime), tz, clock) });
+  }, [startTime, endTime, tz, clock]);
+
+  useLayoutEffect(() => {
+    const popover = popoverRef.current;
+    const field = containerRef.current;
+    if (!open || !popover || !field) return;
+    // Flip above the field when the popover doesn't fit below it.
+    const fieldRect = field.getBoundingClientRect();
+    const height = popover.offsetHeight;
+    setPlacement(fieldRect.bottom + height > window.innerHeight && fieldRect.top > height ? 'above' : 'below');
+    popover.querySelector<HTMLElement>(FOCUSABLE)?.focus();
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [open]);
+
+  const close = () => {
+    setOpen(false);
+    triggerRef.current?.focus();
+  };
+
+  // Moved after the render so the segment being left already shows its padded value.
+  useEffect(() => {
+    if (!pendingFocus) return;
+    segmentRefs.current.get(pendingFocus)?.focus();
+    setPendingFocus(null);
+  }, [pendingFocus]);
+
+  const focusSegment = (endpoint: Endpoint, segment: Segment, offset: 1 | -1) => {
+    const all = ENDPOINTS.flatMap(e => order.map(s => `${e}-${s}`));
+    const next = all[all.indexOf(`${endpoint}-${segment}`) + offset];
+    if (next) setPendingFocus(next);
+  };
+
+  const updateSegment = (endpoint: Endpoint, segment: Segment, text: string) => {
+    const next = { ...segments, [endpoint]: { ...segments[endpoint], [segment]: text } };
+    setSegments(next);
+    const date = fromSegments(next[endpoint], tz, clock, pickerProps.dstPolicy ?? DEFAULT_DST_POLICY);
+    if (date && date.getTime() !== value[endpoint]?.getTime()) {
+      change(syncComparison({ ...value, [endpoint]: date, relative: undefined }));
+    }
+  };
+
+  const handleSegmentChange = (endpoint: Endpoint, segment: Segment, raw: string) => {
+    const length = SEGMENT_LENGTH[segment];
+    const digits = raw.replace(/\D/g, '');
+    // Typing into a full segment starts it over.
+    const text = digits.length > length ? digits.slice(length) : digits;
+    const max = getBounds(segment, clock)[1];
+    if (text.length === length || (segment !== 'year' && text && Number(text) * 10 > max)) {
+      updateSegment(endpoint, segment, pad(Number(text), length));
+      focusSegment(endpoint, segment, 1);
+    } else {
+      updateSegment(endpoint, segment, text);
+    }
+  };
+
+  const handleSegmentKeyDown = (endpoint: Endpoint, segment: Segment, e: React.KeyboardEvent<HTMLInputElement>) => {
+    const current = segments[endpoint][segment];
+    if (segment === 'meridiem') {
+      const key = e.key.toLowerCase();
+      if (key === 'a' || key === 'p') updateSegment(endpoint, segment, `${key}m`);
+      if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+        e.preventDefault();
+        updateSegment(endpoint, segment, current === 'am' ? 'pm' : 'am');
+      }
+    } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      const [min, max] = getBounds(segment, clock);
+      const step = e.key === 'ArrowUp' ? 1 : -1;
+      const base = current ? Number(current) : segment === 'year' ? now().getFullYear() - step : min - step;
+      const next = base + step > max ? min : base + step < min ? max : base + step;
+      updateSegment(endpoint, segment, pad(next, SEGMENT_LENGTH[segment]));
+    }
+    if (e.key === 'Backspace' && !current) {
+      e.preventDefault();
+      focusSegment(endpoint, segment, -1);
+    }
+  };
+
+  const handleSegmentBlur = (endpoint: Endpoint, segment: Segment) => {
+    const current = segments[endpoint][segment];
+    if (segment !== 'year' && segment !== 'meridiem' && /^\d$/.test(current)) {
+      updateSegment(endpoint, segment, pad(Number(current)));
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape' && open) {
+      e.stopPropagation();
+      close();
+    }
+  };
+
+  // Keep Tab and Shift+Tab cycling inside the open popover.
+  const handlePopoverKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== 'Tab' || !popoverRef.current) return;
+    const focusable = Array.from(popoverRef.current.querySelectorAll<HTMLElement>(FOCUSABLE));
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (!first || !last) return;
+    if (e.shiftKey && document.activeElement === first) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  const error = errors[0] ? getErrorMessage(errors[0], t) : null;
+  // The popover is unmounted while closed, so the field itself takes part in the form.
+  const validationMessage = pending ? t.validating : error ?? ((value.start === null) !== (value.end === null) ? t.incompleteRange : '');
+  const formField = useRangeFormField({
+    value,
+    name,
+    form,
+    required,
+    format: formValueFormat,
+    validationMessage,
+    onReset: restore,
+  });
+  useImperativeHandle(ref, () => ({
+    // The segments commit as they are typed, so only the open popover has a draft to apply or discard.
+    apply: () => {
+      if (open && pickerRef.current) return pickerRef.current.apply();
+      if (pending || errors.length > 0 || !value.start || !value.end) return false;
+      onApply?.(value);
+      return true;
+    },
+    reset: () => pickerRef.current?.reset(),
+    dirty: open && draftDirty,
+    value,
+    name,
+    focus: () => segmentRefs.current.get(`start-${order[0]}`)?.focus(),
+    checkValidity: formField.checkValidity,
+    reportValidity: formField.reportValidity,
+    validationMessage,
+  }));
+  const errorId = `${idPrefix}-error`;
+  const popoverId = `${idPrefix}-popover`;
+
+  return (
+    <div ref={containerRef} dir={pickerProps.dir ?? getTextDirection(locale)} onKeyDown={handleKeyDown} data-theme={pickerProps.theme ?? 'light'} className="dtrp relative inline-block text-sm text-picker-text font-sans">
+      {formField.getHiddenInputProps().map(input => <input key={input.name} {...input} />)}
+      {(name !== undefined || required) && <input {...formField.getValidityInputProps()} className="sr-only" />}
+      <div
+        role="group"
+        id={id}
+        aria-label={t.selectedRange}
+        aria-invalid={error ? true : undefined}
+        aria-busy={pending || undefined}
+        aria-describedby={error ? errorId : undefined}
+        className={`flex items-center px-2 py-1 border rounded bg-picker-surface focus-within:border-picker-focus ${error ? 'border-picker-danger' : 'border-picker-border'}`}
+      >
+        {ENDPOINTS.map((endpoint, i) => (
+          <React.Fragment key={endpoint}>
+            {i === 1 && <span className="mx-2 text-picker-text-subtle">–</span>}
+            {/* Numeric segments read left to right in every script. */}
+            <span dir="ltr" className="flex items-center whitespace-nowrap">
+              {order.map(segment => (
+                <React.Fragment key={segment}>
+                  {SEGMENT_SEPARATOR[segment] && <span className="text-picker-text-subtle whitespace-pre">{SEGMENT_SEPARATOR[segment]}</span>}
+                  <input
+                    ref={(el) => {
+                      if (el) segmentRefs.current.set(`${endpoint}-${segment}`, el);
+                      else segmentRefs.current.delete(`${endpoint}-${segment}`);
+                    }}
+                    type="text"
+                    inputMode={segment === 'meridiem' ? 'text' : 'numeric'}
+                    readOnly={segment === 'meridiem'}
+                    aria-label={`${t[endpoint]} ${t[segment]}`}
+                    aria-invalid={errors.some(e => e.field === endpoint) || undefined}
+                    placeholder={SEGMENT_PLACEHOLDER[segment]}
+                    value={segment === 'meridiem' ? (segments[endpoint].meridiem === 'pm' ? t.pm : segments[endpoint].meridiem === 'am' ? t.am : '') : segments[endpoint][segment]}
+                    onChange={(e) => handleSegmentChange(endpoint, segment, e.target.value)}
+                    onKeyDown={(e) => handleSegmentKeyDown(endpoint, segment, e)}
+                    onBlur={() => handleSegmentBlur(endpoint, segment)}
+                    onFocus={(e) => e.target.select()}
+                    className={`${segment === 'year' ? 'w-10' : 'w-6'} text-center rounded outline-none focus:bg-picker-range placeholder:text-picker-text-subtle`}
+                  />
+                </React.Fragment>
+              ))}
+            </span>
+          </React.Fragment>
+        ))}
+        <button
+          ref={triggerRef}
+          type="button"
+          aria-label={t.openCalendar}
+          aria-haspopup="dialog"
+          aria-expanded={open}
+          aria-controls={open ? popoverId : undefined}
+          onClick={() => {
+            setOpen(!open);
+            setDraftDirty(false);
+          }}
+          className="ms-2 px-1 rounded text-picker-text-muted hover:bg-picker-hover"
+        >
+          ▾
+        </button>
+      </div>
+      {error && <div id={errorId} className="mt-1 text-[11px] text-picker-danger">{error}</div>}
+
+      {open && (
+        <div
+          ref={popoverRef}
+          id={popoverId}
+          role="dialog"
+          aria-modal="true"
+          aria-label={t.selectedRange}
+          onKeyDown={handlePopoverKeyDown}
+          className={`absolute start-0 z-10 ${(pickerProps.months ?? 1) > 1 ? 'w-[48rem]' : 'w-[28rem]'} ${placement === 'below' ? 'top-full mt-1' : 'bottom-full mb-1'}`}
+        >
+          <DateTimeRangePicker
+            {...pickerProps}
+            ref={pickerRef}
+            value={value}
+            validation={{ errors, pending }}
+            onChange={change}
+            onDirtyChange={(dirty) => {
+              setDraftDirty(dirty);
+              pickerProps.onDirtyChange?.(dirty);
+            }}
+            onApply={(applied) => {
+              onApply?.(applied);
+              close();
+            }}
+            onCancel={() => {
+              onCancel?.();
+              close();
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+});
+DateTimeRangeInput.displayName = 'DateTimeRangeInput';
+
+export default DateTimeRangeInput;
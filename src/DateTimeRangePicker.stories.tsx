@@ -1,7 +1,9 @@
 import type { Meta, StoryObj } from '@storybook/react';
 import { useState } from 'react';
 import DateTimeRangePicker from './DateTimeRangePicker';
-import { DateTimeRange, Constraints, Preset } from './types';
+import DateTimeRangeInput from './DateTimeRangeInput';
+import { createLocalStorageAdapter } from './useRangeSync';
+import { DateTimeRange, Constraints, Preset, MonthMeta, MonthMetaRequest } from './types';
 import { subDays } from 'date-fns';
 
 const meta: Meta<typeof DateTimeRangePicker> = {
@@ -34,10 +36,7 @@ const constraints: Constraints = {
 const presets: Preset[] = [
   {
     label: 'Last 24 hours',
-    getRange: (now) => ({
-      start: subDays(now, 1),
-      end: now,
-    }),
+    relative: { start: 'now-24h', end: 'now' },
   },
   {
     label: 'Last 7 days',
@@ -46,6 +45,10 @@ const presets: Preset[] = [
       end: now,
     }),
   },
+  {
+    label: 'This week so far',
+    relative: { start: 'now/w', end: 'now' },
+  },
 ];
 
 // Wrapper component to add state
@@ -53,7 +56,8 @@ const StatefulDateTimeRangePicker: React.FC<{
   initialValue: DateTimeRange;
   constraints?: Constraints;
   presets?: Preset[];
-}> = ({ initialValue, constraints, presets }) => {
+  months?: number;
+}> = ({ initialValue, constraints, presets, months }) => {
   const [value, setValue] = useState<DateTimeRange>(initialValue);
   return (
     <DateTimeRangePicker
@@ -63,10 +67,19 @@ const StatefulDateTimeRangePicker: React.FC<{
       onCancel={() => alert('Cancelled')}
       constraints={constraints}
       presets={presets}
+      months={months}
     />
   );
 };
 
+// Keeps the value in state, for stories that only vary the picker's props.
+const ControlledPicker: React.FC<Omit<React.ComponentPropsWithoutRef<typeof DateTimeRangePicker>, 'value' | 'onChange'> & {
+  initialValue: DateTimeRange;
+}> = ({ initialValue, ...props }) => {
+  const [value, setValue] = useState<DateTimeRange>(initialValue);
+  return <DateTimeRangePicker {...props} value={value} onChange={setValue} />;
+};
+
 export const Default: Story = {
   render: () => (
     <StatefulDateTimeRangePicker
@@ -77,6 +90,173 @@ export const Default: Story = {
   ),
 };
 
+export const TwoMonths: Story = {
+  render: () => (
+    <StatefulDateTimeRangePicker
+      initialValue={defaultValue}
+      constraints={constraints}
+      presets={presets}
+      months={2}
+    />
+  ),
+};
+
+const StatefulDateTimeRangeInput: React.FC<{ initialValue: DateTimeRange }> = ({ initialValue }) => {
+  const [value, setValue] = useState<DateTimeRange>(initialValue);
+  return <DateTimeRangeInput value={value} onChange={setValue} constraints={constraints} presets={presets} />;
+};
+
+export const InputField: Story = {
+  render: () => <StatefulDateTimeRangeInput initialValue={defaultValue} />,
+  parameters: {
+    docs: {
+      description: {
+        story: 'Type each part of the range, or open the picker with the button. Escape or a click outside closes it.',
+      },
+    },
+  },
+};
+
+// Pretend log volume: a slow request per month, with weekends quiet and every 10th day missing.
+const loadLogVolume = (request: MonthMetaRequest, signal: AbortSignal) =>
+  new Promise<MonthMeta>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      const meta: MonthMeta = {};
+      for (let day = 1; day <= 31; day++) {
+        const key = `${request.year}-${String(request.month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+        const weekday = new Date(Date.UTC(request.year, request.month - 1, day)).getUTCDay();
+        const count = day % 10 === 0 ? 0 : weekday % 6 === 0 ? 20 : 400 + day * 15;
+        meta[key] = count === 0
+          ? { unavailable: true, tooltip: 'No data' }
+          : { count, intensity: count / 1000, tooltip: `${count} events`, ...(day % 7 === 3 && { dots: ['#dc2626'] }) };
+      }
+      resolve(meta);
+    }, 600);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+
+export const WithDayMetadata: Story = {
+  render: () => <ControlledPicker initialValue={defaultValue} months={2} loadMonthMeta={loadLogVolume} />,
+};
+
+export const SecondPrecision: Story = {
+  render: () => <ControlledPicker initialValue={defaultValue} timePrecision="millisecond" minuteStep={5} timeSlotInterval={15} />,
+};
+
+// Shows what reaches onChange, which in apply mode is only the applied range.
+const CommittedRangeLog: React.FC = () => {
+  const [committed, setCommitted] = useState<DateTimeRange | null>(null);
+  return (
+    <div>
+      <DateTimeRangePicker defaultValue={defaultValue} onChange={setCommitted} commitMode="apply" presets={presets} />
+      <p className="mt-2 text-xs">Committed: {committed ? `${committed.start?.toISOString()} – ${committed.end?.toISOString()}` : 'nothing yet'}</p>
+    </div>
+  );
+};
+
+export const ApplyToCommit: Story = {
+  render: () => <CommittedRangeLog />,
+};
+
+const presetStorage = createLocalStorageAdapter('storybook:dtrp-presets');
+
+export const SavedPresets: Story = {
+  render: () => <ControlledPicker initialValue={defaultValue} presets={presets} presetStorage={presetStorage} recentLimit={3} />,
+  parameters: {
+    docs: {
+      description: {
+        story: 'Saved presets and the last three applied ranges are kept in localStorage, so they survive a reload.',
+      },
+    },
+  },
+};
+
+// Lists what the form submits.
+const RangeForm: React.FC = () => {
+  const [submitted, setSubmitted] = useState('');
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        setSubmitted(Array.from(new FormData(e.currentTarget), ([key, value]) => `${key}=${String(value)}`).join('\n'));
+      }}
+    >
+      <DateTimeRangePicker name="range" required defaultValue={defaultValue} formValueFormat="offset" constraints={constraints} />
+      <div className="mt-2 flex gap-2 text-xs">
+        <button type="submit" className="px-2 py-1 border rounded">Submit</button>
+        <button type="reset" className="px-2 py-1 border rounded">Reset</button>
+      </div>
+      <pre className="mt-2 text-xs">{submitted || 'Not submitted'}</pre>
+    </form>
+  );
+};
+
+export const InAForm: Story = {
+  render: () => <RangeForm />,
+};
+
+export const DarkTheme: Story = {
+  render: () => (
+    <div className="bg-gray-950 p-6">
+      <ControlledPicker initialValue={defaultValue} theme="dark" presets={presets} months={2} />
+    </div>
+  ),
+};
+
+// Brand colours through the tokens, plus a class per part and custom day content.
+export const CustomTheme: Story = {
+  render: () => (
+    <>
+      <style>{'.brand { --dtrp-accent: #e11d48; --dtrp-accent-hover: #be123c; --dtrp-range: #ffe4e6; --dtrp-range-text: #9f1239; --dtrp-focus: #e11d48; }'}</style>
+      <ControlledPicker
+        initialValue={defaultValue}
+        presets={presets}
+        classNames={{ root: 'brand rounded-xl', presetChip: 'rounded-full', dayCell: 'data-[start]:rounded-full data-[end]:rounded-full', footer: 'bg-transparent' }}
+        renderDay={(day, content) => (
+          <>
+            {content}
+            {day.date.getUTCDay() === 5 && <span aria-hidden="true" className="absolute top-0 end-0.5 text-[8px]">$</span>}
+          </>
+        )}
+      />
+    </>
+  ),
+};
+
+export const Timeline: Story = {
+  // An overnight incident window, with a maintenance blackout the next afternoon.
+  render: () => (
+    <ControlledPicker
+      initialValue={{
+        start: new Date('2024-03-13T02:15:00Z'),
+        end: new Date('2024-03-13T07:40:00Z'),
+        timezone: 'America/New_York',
+      }}
+      timeline
+      timelineStep={5}
+      constraints={{ blackoutIntervals: [{ start: new Date('2024-03-13T18:00:00Z'), end: new Date('2024-03-13T20:00:00Z') }] }}
+    />
+  ),
+  parameters: {
+    docs: {
+      description: {
+        story: 'Switch to Timeline, then drag on the track for a new range or drag a handle. Focused handles move by 5 minutes with the arrows and an hour with PageUp/PageDown.',
+      },
+    },
+  },
+};
+
+export const Weeks: Story = {
+  render: () => <ControlledPicker initialValue={{ start: null, end: null, timezone: 'Europe/Berlin' }} granularity="week" />,
+};
+
+export const Quarters: Story = {
+  render: () => <ControlledPicker initialValue={{ start: null, end: null, timezone: 'America/New_York' }} granularity="quarter" />,
+};
+
 export const WithDSTTransition: Story = {
   render: () => (
     <StatefulDateTimeRangePicker
@@ -91,6 +271,20 @@ export const WithDSTTransition: Story = {
   ),
 };
 
+export const RepeatedAndSkippedTimes: Story = {
+  // 01:30 on Apr 7 happens twice in Sydney; 02:30 on Oct 6 is skipped.
+  render: () => (
+    <ControlledPicker
+      initialValue={{
+        start: new Date('2024-04-06T14:30:00Z'),
+        end: new Date('2024-10-05T15:30:00Z'),
+        timezone: 'Australia/Sydney',
+      }}
+      dstPolicy={{ gap: 'reject', overlap: 'later' }}
+    />
+  ),
+};
+
 export const InvalidRange: Story = {
   render: () => (
     <StatefulDateTimeRangePicker
@@ -116,7 +310,7 @@ export const KeyboardOnly: Story = {
   parameters: {
     docs: {
       description: {
-        story: 'Test keyboard navigation: Tab to grid, use arrows to navigate, Enter to select.',
+        story: 'Tab to the highlighted day, then use the arrows, Home/End and PageUp/PageDown (Shift for years) to move, and Enter or Space to select.',
       },
     },
   },
@@ -1,151 +1,436 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { addMonths, subMonths, isSameDay, addDays, isBefore } from 'date-fns';
-import { utcToZonedTime, zonedTimeToUtc } from 'date-fns-tz';
-import { DateTimeRange, Constraints, Preset } from './types';
-import { getCalendarDays, formatInTimezone, isDateDisabled, validateRange } from './utils';
+import React, { useImperativeHandle, useState } from 'react';
+import { Locale } from 'date-fns';
+import { DateTimeRange, CommitMode, Constraints, FormValueFormat, Preset, TimezoneChangeMode, WeekDay, HourCycle, TimePrecision, DstPolicy, TextDirection, Messages, TimeSpan, ValidationField, DayMeta, MonthMetaLoader, Granularity, ThemeMode, PickerClassNames, RangeValidation } from './types';
+import { DayState, useDateTimeRangePicker } from './useDateTimeRangePicker';
+import { toPreset, useSavedPresets } from './useSavedPresets';
+import { RangeStorageAdapter } from './useRangeSync';
+import { parseIsoInterval } from './serialize';
+import { formatRange } from './formatRange';
+import { useRangeFormField } from './useRangeFormField';
+import { useTimeline } from './useTimeline';
+import TimezoneSelect from './TimezoneSelect';
 
 interface DateTimeRangePickerProps {
-  value: DateTimeRange;
-  onChange: (value: DateTimeRange) => void;
+  value?: DateTimeRange | undefined; // Controlled range; leave it out and use defaultValue for an uncontrolled picker
+  defaultValue?: DateTimeRange | undefined;
+  onChange?: ((value: DateTimeRange) => void) | undefined; // Every edit, or only applied ranges with commitMode="apply"
+  commitMode?: CommitMode | undefined;
+  onDirtyChange?: ((dirty: boolean) => void) | undefined;
   onApply?: (value: DateTimeRange) => void;
   onCancel?: () => void;
   constraints?: Constraints | undefined;
   presets?: Preset[] | undefined;
+  presetStorage?: RangeStorageAdapter | undefined; // Turns on saved presets and recent ranges, kept through this adapter
+  recentLimit?: number | undefined; // How many applied ranges "Recent" lists; defaults to 5
+  timezones?: string[] | undefined; // Restricts and orders the zone list; defaults to every IANA zone
+  pinnedTimezones?: string[] | undefined;
+  timezoneChangeMode?: TimezoneChangeMode | undefined;
+  onTimezoneChange?: ((timezone: string, mode: TimezoneChangeMode) => void) | undefined; // Called before onChange; used by MultiRangePicker
+  validation?: RangeValidation | undefined; // Results for `value` when the caller already validates it, so validators don't run twice; used by DateTimeRangeInput
+  months?: number | undefined; // Number of adjacent months shown side by side
+  locale?: Locale | undefined; // A date-fns locale; drives month/day names, week start, clock and direction
+  weekStartsOn?: WeekDay | undefined;
+  dir?: TextDirection | undefined;
+  hourCycle?: HourCycle | undefined;
+  messages?: Partial<Messages> | undefined;
+  otherRanges?: TimeSpan[] | undefined; // Shown alongside `value`; used by MultiRangePicker
+  onOtherRangeSelect?: ((index: number) => void) | undefined;
+  now?: (() => Date) | undefined; // Injectable clock; defaults to the system time
+  getDayMeta?: ((date: Date, timezone: string) => DayMeta | undefined) | undefined;
+  loadMonthMeta?: MonthMetaLoader | undefined; // Badges, shading and availability, fetched per visible month
+  granularity?: Granularity | undefined; // Pick whole weeks, months, quarters or years instead of days and times
+  timePrecision?: TimePrecision | undefined; // Adds seconds, or seconds and milliseconds, to the time fields
+  minuteStep?: number | undefined;
+  timeSlotInterval?: number | undefined; // Minutes between the entries of a list of times under each end; no list when unset
+  dstPolicy?: DstPolicy | undefined; // How times skipped or repeated by a DST change are resolved
+  theme?: ThemeMode | undefined; // Picks the set of --dtrp-* tokens; defaults to 'light'
+  classNames?: PickerClassNames | undefined; // Extra classes per part, appended to the built-in ones
+  renderDay?: ((day: DayState, content: React.ReactNode) => React.ReactNode) | undefined; // Content of a day cell; `content` is the default
+  name?: string | undefined; // Submits the committed range with a form, as `${name}[start]`, `${name}[end]` and `${name}[timezone]`
+  form?: string | undefined; // id of the form to submit with, when the picker isn't inside it
+  required?: boolean | undefined;
+  formValueFormat?: FormValueFormat | undefined; // How the hidden inputs write each end; defaults to 'iso'
+  timeline?: boolean | undefined; // Adds a switch to a drag-to-select timeline of the selected days (day granularity only)
+  timelineStep?: number | undefined; // Minutes the timeline snaps to and its handles move by; defaults to 15
+}
+
+const cx = (...classes: (string | false | undefined)[]) => classes.filter(Boolean).join(' ');
+
+export interface DateTimeRangePickerHandle {
+  /** Commits the draft and calls onApply, as the Apply button does. Returns false if the range can't be applied. */
+  apply: () => boolean;
+  /** Discards the draft, going back to the last committed range. */
+  reset: () => void;
+  dirty: boolean;
+  /** The committed range, as submitted with a form. */
+  value: DateTimeRange;
+  name: string | undefined;
+  /** Focuses the calendar, e.g. when a form library reports an error on this field. */
+  focus: () => void;
+  checkValidity: () => boolean;
+  reportValidity: () => boolean;
+  validationMessage: string;
 }
 
-const DateTimeRangePicker: React.FC<DateTimeRangePickerProps> = ({
+const DateTimeRangePicker = React.forwardRef<DateTimeRangePickerHandle, DateTimeRangePickerProps>(({
   value,
+  defaultValue,
   onChange,
+  commitMode,
+  onDirtyChange,
   onApply,
   onCancel,
   constraints,
   presets = [],
-}) => {
-  const [currentMonth, setCurrentMonth] = useState(new Date());
-  const [focusedDate, setFocusedDate] = useState<Date | null>(null);
-  const [startTime, setStartTime] = useState({ hour: 0, minute: 0 });
-  const [endTime, setEndTime] = useState({ hour: 23, minute: 59 });
-  const [error, setError] = useState<string | null>(null);
-  const gridRef = useRef<HTMLDivElement>(null);
+  presetStorage,
+  recentLimit,
+  timezones,
+  pinnedTimezones,
+  timezoneChangeMode,
+  onTimezoneChange,
+  validation,
+  months = 1,
+  locale,
+  weekStartsOn,
+  dir,
+  hourCycle,
+  messages,
+  otherRanges,
+  onOtherRangeSelect,
+  now,
+  getDayMeta,
+  loadMonthMeta,
+  granularity = 'day',
+  timePrecision = 'minute',
+  minuteStep,
+  timeSlotInterval,
+  dstPolicy,
+  theme = 'light',
+  classNames = {},
+  renderDay,
+  name,
+  form,
+  required,
+  formValueFormat,
+  timeline: timelineEnabled = false,
+  timelineStep,
+}, ref) => {
+  const saved = useSavedPresets(presetStorage, { recentLimit });
+  // `id` is null while naming a new preset
+  const [presetDraft, setPresetDraft] = useState<{ id: string | null; label: string } | null>(null);
+  const picker = useDateTimeRangePicker({
+    value,
+    defaultValue,
+    onChange,
+    commitMode,
+    onDirtyChange,
+    onApply: (applied) => {
+      if (presetStorage) saved.addRecent(applied);
+      onApply?.(applied);
+    },
+    onCancel,
+    constraints,
+    timezoneChangeMode,
+    onTimezoneChange,
+    validation,
+    months,
+    locale,
+    weekStartsOn,
+    dir,
+    hourCycle,
+    messages,
+    otherRanges,
+    onOtherRangeSelect,
+    now,
+    getDayMeta,
+    loadMonthMeta,
+    granularity,
+    timePrecision,
+    minuteStep,
+    dstPolicy,
+  });
+  const [surface, setSurface] = useState<'calendar' | 'timeline'>('calendar');
+  const showTimeline = timelineEnabled && granularity === 'day' && surface === 'timeline';
+  const timeline = useTimeline({
+    value: picker.value,
+    onChange: picker.setRange,
+    now,
+    constraints,
+    step: timelineStep,
+    locale,
+    hourCycle: picker.hourCycle,
+    dir: picker.dir,
+    enabled: showTimeline,
+  });
+  const t = picker.messages;
+  // The form submits the committed range, so it is the one checked, not an unapplied draft.
+  const committed = picker.committedValue;
+  const validationMessage = picker.committedValidating ? t.validating
+    : picker.committedErrors[0] ? picker.formatError(picker.committedErrors[0])
+    : (committed.start === null) !== (committed.end === null) ? t.incompleteRange : '';
+  const formField = useRangeFormField({
+    value: committed,
+    name,
+    form,
+    required,
+    format: formValueFormat,
+    validationMessage,
+    onReset: picker.restore,
+  });
+  useImperativeHandle(ref, () => ({
+    apply: picker.apply,
+    reset: picker.reset,
+    dirty: picker.dirty,
+    value: committed,
+    name,
+    focus: picker.focusCalendar,
+    checkValidity: formField.checkValidity,
+    reportValidity: formField.reportValidity,
+    validationMessage,
+  }));
+  const isRtl = picker.dir === 'rtl';
+  const rangeTextProps = picker.getRangeTextInputProps();
+  const timezoneSelectProps = picker.getTimezoneSelectProps();
+  const comparisonSelectProps = picker.getComparisonSelectProps();
 
-  const tz = value.timezone;
-  const calendarDays = getCalendarDays(currentMonth.getFullYear(), currentMonth.getMonth(), tz);
-
-  const weekDays = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
-  const firstDay = calendarDays[0];
-  const firstDayOfWeek = new Intl.DateTimeFormat('en', { timeZone: tz, weekday: 'narrow' }).format(firstDay);
-  const startIndex = weekDays.indexOf(firstDayOfWeek);
-
-  const handleDateSelect = (date: Date) => {
-    if (isDateDisabled(date, constraints, tz)) return;
-    let newStart = value.start;
-    let newEnd = value.end;
-
-    if (!value.start || (value.start && value.end)) {
-      newStart = date;
-      newEnd = null;
-    } else {
-      newEnd = date;
-      if (isBefore(newEnd, newStart)) {
-        [newStart, newEnd] = [newEnd, newStart];
-      }
-    }
-
-    const validationError = validateRange(newStart, newEnd, constraints);
-    setError(validationError);
-    onChange({ ...value, start: newStart, end: newEnd });
+  const renderErrors = (field: ValidationField, className: string) => {
+    const fieldErrors = picker.errors.filter(error => error.field === field);
+    if (fieldErrors.length === 0) return null;
+    return (
+      <div {...picker.getFieldErrorProps(field)} className={`text-[11px] text-picker-danger ${className}`}>
+        {fieldErrors.map(error => <div key={error.code}>{picker.formatError(error)}</div>)}
+      </div>
+    );
   };
 
-  const handleTimeChange = (type: 'start' | 'end', field: 'hour' | 'minute', val: number) => {
-    const updatedTime = type === 'start'
-      ? { ...startTime, [field]: val }
-      : { ...endTime, [field]: val };
+  const canSavePreset = Boolean(picker.value.relative || (picker.value.start && picker.value.end));
 
-    if (type === 'start') setStartTime(updatedTime);
-    else setEndTime(updatedTime);
-
-    const newValue = { ...value };
-    if (type === 'start' && newValue.start) {
-      const zoned = utcToZonedTime(newValue.start, tz);
-      zoned.setHours(updatedTime.hour, updatedTime.minute);
-      newValue.start = zonedTimeToUtc(zoned, tz);
-    } else if (type === 'end' && newValue.end) {
-      const zoned = utcToZonedTime(newValue.end, tz);
-      zoned.setHours(updatedTime.hour, updatedTime.minute);
-      newValue.end = zonedTimeToUtc(zoned, tz);
-    }
-
-    const validationError = validateRange(newValue.start, newValue.end, constraints);
-    setError(validationError);
-    onChange(newValue);
+  const savePresetDraft = () => {
+    const label = presetDraft?.label.trim();
+    if (!presetDraft || !label) return;
+    if (presetDraft.id) saved.renamePreset(presetDraft.id, label);
+    else saved.savePreset(label, picker.value);
+    setPresetDraft(null);
   };
 
-  const handlePresetSelect = (preset: Preset) => {
-    const now = new Date();
-    const range = preset.getRange(now, tz);
-    onChange({ ...value, ...range });
-    setError(null);
-  };
+  const renderPresetNameInput = (draft: { id: string | null; label: string }) => (
+    <input
+      autoFocus
+      aria-label={t.presetName}
+      value={draft.label}
+      onChange={e => setPresetDraft({ ...draft, label: e.target.value })}
+      onKeyDown={e => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          savePresetDraft();
+        } else if (e.key === 'Escape') {
+          e.stopPropagation(); // Closes only the name field, not a surrounding popover
+          setPresetDraft(null);
+        }
+      }}
+      className="w-32 px-1.5 py-1 border border-picker-border rounded bg-picker-surface outline-none focus:border-picker-focus"
+    />
+  );
 
-  const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (!focusedDate) return;
-    let newFocused = focusedDate;
-    switch (e.key) {
-      case 'ArrowLeft': newFocused = addDays(focusedDate, -1); break;
-      case 'ArrowRight': newFocused = addDays(focusedDate, 1); break;
-      case 'ArrowUp': newFocused = addDays(focusedDate, -7); break;
-      case 'ArrowDown': newFocused = addDays(focusedDate, 7); break;
-      case 'Enter': handleDateSelect(focusedDate); return;
-      default: return;
-    }
-    e.preventDefault();
-    setFocusedDate(newFocused);
-  };
+  const renderTimeline = () => (
+    <div role="group" aria-label={t.timelineView} className={cx('mb-4 select-none', classNames.calendar)}>
+      <div className="relative h-4 text-[10px] font-medium text-picker-text-muted">
+        {timeline.ticks.filter(tick => tick.dayLabel).map(tick => (
+          <span key={tick.at.getTime()} className="absolute whitespace-nowrap" style={timeline.getPositionStyle(tick.position)}>{tick.dayLabel}</span>
+        ))}
+      </div>
+      <div {...timeline.getTrackProps()} className="relative h-10 rounded border border-picker-border bg-picker-surface touch-none cursor-crosshair">
+        {timeline.unavailable.map(segment => (
+          <div
+            key={`${segment.kind}-${segment.position}`}
+            aria-hidden="true"
+            className={`absolute inset-y-0 ${segment.kind === 'blackout' ? 'bg-picker-other' : 'bg-picker-muted'}`}
+            style={timeline.getPositionStyle(segment.position, segment.width)}
+          />
+        ))}
+        {timeline.ticks.map(tick => (
+          <div
+            key={tick.at.getTime()}
+            aria-hidden="true"
+            className={`absolute inset-y-0 border-s ${tick.dayLabel ? 'border-picker-text-subtle' : 'border-picker-divider'}`}
+            style={timeline.getPositionStyle(tick.position)}
+          />
+        ))}
+        {timeline.selection && <div {...timeline.getSelectionProps()} className="absolute inset-y-1 rounded-sm bg-picker-range" />}
+        {(['start', 'end'] as const).map(endpoint => picker.value[endpoint] && (
+          <div
+            key={endpoint}
+            {...timeline.getHandleProps(endpoint, endpoint === 'start' ? t.startTime : t.endTime)}
+            className="absolute inset-y-0 w-2 -ms-1 rounded bg-picker-accent cursor-ew-resize focus:outline-none focus:ring-2 focus:ring-picker-focus"
+          />
+        ))}
+      </div>
+      <div className="relative h-4 text-[10px] text-picker-text-subtle">
+        {timeline.ticks.filter(tick => tick.label).map(tick => (
+          <span key={tick.at.getTime()} className="absolute -translate-x-1/2 rtl:translate-x-1/2" style={timeline.getPositionStyle(tick.position)}>{tick.label}</span>
+        ))}
+      </div>
+    </div>
+  );
 
-  useEffect(() => {
-    if (focusedDate && gridRef.current) {
-      const cell = gridRef.current.querySelector(`[data-date="${focusedDate.toISOString()}"]`) as HTMLElement;
-      cell?.focus();
-    }
-  }, [focusedDate]);
+  const renderDayContent = (day: DayState, content: React.ReactNode) => (renderDay ? renderDay(day, content) : content);
 
-  const isInRange = (date: Date) => {
-    if (!value.start || !value.end) return false;
-    return date >= value.start && date <= value.end;
+  const dateTimeFormat = timePrecision === 'minute' ? 'MMM d, p' : 'MMM d, pp';
+  // Times in the header follow `hourCycle` or the locale, else en-US's 12h clock as the header always has.
+  const rangeFormat = { locale, hourCycle, seconds: timePrecision !== 'minute' };
+
+  const describeSavedRange = (text: string) => {
+    const range = parseIsoInterval(text, picker.timezone);
+    if (!range) return text;
+    if (range.relative) return `${range.relative.start} → ${range.relative.end}`;
+    if (!range.start || !range.end) return text;
+    return formatRange({ start: range.start, end: range.end, timezone: picker.timezone }, { ...rangeFormat, style: 'short' });
   };
+  const periodColumns = picker.view === 'month' ? 'grid-cols-3' : picker.view === 'quarter' ? 'grid-cols-4' : 'grid-cols-5';
+  const showWeekNumbers = granularity === 'week';
 
-  const isRangeStart = (date: Date) => value.start && isSameDay(date, value.start);
-  const isRangeEnd = (date: Date) => value.end && isSameDay(date, value.end);
+  const renderTimeInputs = (type: 'start' | 'end') => (
+    <div {...picker.getTimeGroupProps(type)}>
+      <div className={cx('flex border border-picker-border rounded p-1 text-xs', classNames.timeInput)}>
+        {picker.timeFields.map((field, i) => (
+          <React.Fragment key={field}>
+            {i > 0 && <span className="px-0.5">{field === 'millisecond' ? '.' : ':'}</span>}
+            <input
+              {...picker.getTimeInputProps(type, field)}
+              className={`${field === 'millisecond' ? 'w-8' : 'w-6'} flex-1 min-w-0 text-center outline-none aria-[invalid=true]:text-picker-danger disabled:bg-transparent`}
+            />
+          </React.Fragment>
+        ))}
+        {picker.hourCycle === 12 && (
+          <select {...picker.getMeridiemProps(type)} className="ms-1 outline-none bg-picker-surface">
+            <option value="am">{t.am}</option>
+            <option value="pm">{t.pm}</option>
+          </select>
+        )}
+      </div>
+      <div {...picker.getTimeHintProps(type)} className="text-[11px] text-picker-warning">
+        {picker.timeHints[type]}
+      </div>
+      {timeSlotInterval !== undefined && (
+        <ul {...picker.getTimeSlotListProps(type)} className="mt-1 max-h-32 overflow-y-auto border border-picker-divider rounded text-xs">
+          {picker.getTimeSlots(type, timeSlotInterval).map(slot => (
+            <li
+              key={slot.minutes}
+              {...picker.getTimeSlotProps(type, slot)}
+              className={`px-2 py-0.5 cursor-pointer focus:outline-none focus:bg-picker-hover ${slot.selected
+                  ? 'bg-picker-accent text-picker-on-accent'
+                  : slot.disabled ? 'text-picker-text-disabled cursor-default' : 'hover:bg-picker-muted'
+                }`}
+            >
+              {slot.label}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
 
   return (
-    <div className="max-w-md mx-auto bg-white border border-gray-300 rounded shadow-sm text-gray-800 font-sans">
+    <div
+      dir={picker.dir}
+      data-theme={theme}
+      className={cx('dtrp', months > 1 ? 'max-w-3xl' : 'max-w-md', 'mx-auto bg-picker-surface border border-picker-border rounded shadow-sm text-picker-text font-sans', classNames.root)}
+    >
+      {formField.getHiddenInputProps().map(input => <input key={input.name} {...input} />)}
+      {(name !== undefined || required) && (
+        <input {...formField.getValidityInputProps()} className="sr-only" />
+      )}
+
       {/* Simple Selection Display */}
-      <div className="p-4 border-b border-gray-200">
-        <label className="block text-xs font-medium text-gray-500 mb-1">SELECTED RANGE</label>
+      <div className={cx('p-4 border-b border-picker-divider', classNames.header)}>
+        <label className="block text-xs font-medium text-picker-text-muted mb-1">{t.selectedRange}</label>
         <div className="text-sm font-semibold truncate">
-          {value.start ? formatInTimezone(value.start, tz, 'MMM d, p') : 'Start'}
-          <span className="mx-2 text-gray-400">-</span>
-          {value.end ? formatInTimezone(value.end, tz, 'MMM d, p') : 'End'}
+          {picker.value.start && picker.value.end ? (
+            formatRange({ start: picker.value.start, end: picker.value.end, timezone: picker.timezone }, { ...rangeFormat, duration: true })
+          ) : (
+            <>
+              {picker.value.start ? picker.formatDate(picker.value.start, dateTimeFormat) : t.start}
+              <span className="mx-2 text-picker-text-subtle">-</span>
+              {picker.value.end ? picker.formatDate(picker.value.end, dateTimeFormat) : t.end}
+            </>
+          )}
         </div>
+        {picker.value.relative && (
+          <div className="text-xs text-picker-text-muted truncate mt-1">
+            {t.rollingRange}: {picker.value.relative.start} → {picker.value.relative.end}
+          </div>
+        )}
+        {picker.value.comparison && (
+          <div className="text-xs text-picker-comparison-text truncate mt-1">
+            {t.comparisonRange}: {picker.value.comparison.start && picker.value.comparison.end
+              ? formatRange({ start: picker.value.comparison.start, end: picker.value.comparison.end, timezone: picker.timezone }, { ...rangeFormat, timezone: false })
+              : `${picker.value.comparison.start ? picker.formatDate(picker.value.comparison.start, dateTimeFormat) : t.start} - ${picker.value.comparison.end ? picker.formatDate(picker.value.comparison.end, dateTimeFormat) : t.end}`}
+          </div>
+        )}
       </div>
 
       <div className="p-5">
         <div className="flex gap-4 mb-4">
           {/* Timezone Select */}
           <div className="flex-1">
-            <label className="block text-xs font-medium text-gray-600 mb-1">Timezone</label>
-            <select
-              value={tz}
-              onChange={(e) => onChange({ ...value, timezone: e.target.value })}
-              className="w-full text-sm p-1.5 border border-gray-300 rounded bg-white outline-none focus:border-blue-500"
-            >
-              <option value="America/New_York">New York</option>
-              <option value="Europe/London">London</option>
-              <option value="Asia/Tokyo">Tokyo</option>
-            </select>
+            <label htmlFor={timezoneSelectProps.id} className="block text-xs font-medium text-picker-text-muted mb-1">{t.timezone}</label>
+            <TimezoneSelect {...timezoneSelectProps} timezones={timezones} pinned={pinnedTimezones} messages={t} now={now} />
+            <label className="flex items-center gap-1 mt-1 text-[11px] text-picker-text-muted">
+              <input
+                type="checkbox"
+                checked={picker.keepWallClock}
+                onChange={(e) => picker.setKeepWallClock(e.target.checked)}
+              />
+              {t.keepWallClock}
+            </label>
           </div>
         </div>
 
+        {/* Comparison period */}
+        <div className="mb-4">
+          <label htmlFor={comparisonSelectProps.id} className="block text-xs font-medium text-picker-text-muted mb-1">{t.compareTo}</label>
+          <select
+            {...comparisonSelectProps}
+            className="w-full text-sm p-1.5 border border-picker-border rounded bg-picker-surface outline-none focus:border-picker-focus"
+          >
+            <option value="">{t.compareNone}</option>
+            <option value="previousPeriod">{t.comparePreviousPeriod}</option>
+            <option value="previousYear">{t.comparePreviousYear}</option>
+            <option value="custom">{t.compareCustom}</option>
+          </select>
+          {picker.comparisonMode === 'custom' && (
+            <div role="group" className="flex gap-1 mt-1 text-[11px]">
+              {(['primary', 'comparison'] as const).map(target => (
+                <button
+                  key={target}
+                  type="button"
+                  aria-pressed={picker.selectionTarget === target}
+                  onClick={() => picker.setSelectionTarget(target)}
+                  className={`px-2 py-0.5 border rounded ${picker.selectionTarget === target
+                      ? target === 'primary' ? 'bg-picker-accent border-picker-accent text-picker-on-accent' : 'bg-picker-comparison border-picker-comparison text-picker-on-accent'
+                      : 'border-picker-border bg-picker-surface'
+                    }`}
+                >
+                  {target === 'primary' ? t.primaryRange : t.comparisonRange}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Free-text range entry */}
+        <div className="mb-4">
+          <label htmlFor={rangeTextProps.id} className="block text-xs font-medium text-picker-text-muted mb-1">{t.typeRange}</label>
+          <input
+            {...rangeTextProps}
+            placeholder={t.typeRangePlaceholder}
+            className="w-full text-sm p-1.5 border border-picker-border rounded bg-picker-surface outline-none focus:border-picker-focus"
+          />
+          {picker.rangeTextError && (
+            <div id={picker.rangeTextErrorId} role="alert" className="mt-1 text-[11px] text-picker-danger">{picker.rangeTextError}</div>
+          )}
+        </div>
+
         {/* Presets - Simple chips */}
         {presets.length > 0 && (
           <div className="mb-4">
@@ -153,8 +438,8 @@ const DateTimeRangePicker: React.FC<DateTimeRangePickerProps> = ({
               {presets.map((preset, idx) => (
                 <button
                   key={idx}
-                  onClick={() => handlePresetSelect(preset)}
-                  className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50 bg-white transition-colors"
+                  {...picker.getPresetProps(preset)}
+                  className={cx('px-2 py-1 text-xs border border-picker-border rounded hover:bg-picker-muted bg-picker-surface transition-colors', classNames.presetChip)}
                 >
                   {preset.label}
                 </button>
@@ -163,111 +448,286 @@ const DateTimeRangePicker: React.FC<DateTimeRangePickerProps> = ({
           </div>
         )}
 
-        {/* Calendar Grid */}
-        <div className="mb-4">
-          <div className="flex justify-between items-center mb-2">
-            <button onClick={() => setCurrentMonth(subMonths(currentMonth, 1))} className="p-1 hover:bg-gray-100 rounded">
-              <span className="text-lg">‹</span>
-            </button>
-            <span className="text-sm font-bold">
-              {formatInTimezone(currentMonth, tz, 'MMMM yyyy')}
-            </span>
-            <button onClick={() => setCurrentMonth(addMonths(currentMonth, 1))} className="p-1 hover:bg-gray-100 rounded">
-              <span className="text-lg">›</span>
-            </button>
-          </div>
-          <div ref={gridRef} role="grid" onKeyDown={handleKeyDown} className="grid grid-cols-7 text-[11px]">
-            {weekDays.map((day, i) => (
-              <div key={`${day}-${i}`} className="p-2 text-center text-gray-400 font-medium">
-                {day}
+        {/* Saved presets and recently applied ranges */}
+        {presetStorage && (
+          <div className="mb-4 text-xs">
+            {saved.presets.length > 0 && (
+              <>
+                <div className="mb-1 font-medium text-picker-text-muted">{t.savedPresets}</div>
+                <ul aria-label={t.savedPresets} className="flex flex-wrap gap-2 mb-2">
+                  {saved.presets.map(item => {
+                    const preset = toPreset(item.label, item.range);
+                    return (
+                      <li key={item.id} className="flex">
+                        {presetDraft?.id === item.id ? renderPresetNameInput(presetDraft) : (
+                          <>
+                            <button
+                              type="button"
+                              disabled={!preset}
+                              title={describeSavedRange(item.range)}
+                              onClick={() => preset && picker.selectPreset(preset)}
+                              className={cx('px-2 py-1 border border-picker-border rounded-s bg-picker-surface hover:bg-picker-muted disabled:text-picker-text-disabled', classNames.presetChip)}
+                            >
+                              {item.label}
+                            </button>
+                            <button
+                              type="button"
+                              aria-label={t.renamePreset(item.label)}
+                              onClick={() => setPresetDraft({ id: item.id, label: item.label })}
+                              className="px-1.5 py-1 border border-s-0 border-picker-border bg-picker-surface hover:bg-picker-muted"
+                            >
+                              ✎
+                            </button>
+                            <button
+                              type="button"
+                              aria-label={t.deletePreset(item.label)}
+                              onClick={() => saved.deletePreset(item.id)}
+                              className="px-1.5 py-1 border border-s-0 border-picker-border rounded-e bg-picker-surface hover:bg-picker-muted"
+                            >
+                              ×
+                            </button>
+                          </>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </>
+            )}
+            {presetDraft && presetDraft.id === null ? (
+              <div className="flex gap-1 mb-2">
+                {renderPresetNameInput(presetDraft)}
+                <button type="button" onClick={savePresetDraft} className="px-2 py-1 rounded bg-picker-accent text-picker-on-accent hover:bg-picker-accent-hover">
+                  {t.save}
+                </button>
               </div>
+            ) : (
+              <button
+                type="button"
+                disabled={!canSavePreset}
+                onClick={() => setPresetDraft({ id: null, label: '' })}
+                className="mb-2 px-2 py-1 border border-dashed border-picker-text-subtle rounded bg-picker-surface disabled:text-picker-text-disabled"
+              >
+                {t.savePreset}
+              </button>
+            )}
+            {saved.recent.length > 0 && (
+              <>
+                <div className="mb-1 font-medium text-picker-text-muted">{t.recentRanges}</div>
+                <ul aria-label={t.recentRanges} className="flex flex-wrap gap-2">
+                  {saved.recent.map(text => {
+                    const label = describeSavedRange(text);
+                    const preset = toPreset(label, text);
+                    return (
+                      <li key={text}>
+                        <button
+                          type="button"
+                          disabled={!preset}
+                          onClick={() => preset && picker.selectPreset(preset)}
+                          className={cx('px-2 py-1 border border-picker-border rounded bg-picker-surface hover:bg-picker-muted disabled:text-picker-text-disabled', classNames.presetChip)}
+                        >
+                          {label}
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </>
+            )}
+          </div>
+        )}
+
+        {timelineEnabled && granularity === 'day' && (
+          <div role="group" className="flex gap-1 mb-2 text-[11px]">
+            {(['calendar', 'timeline'] as const).map(option => (
+              <button
+                key={option}
+                type="button"
+                aria-pressed={surface === option}
+                onClick={() => setSurface(option)}
+                className={`px-2 py-0.5 border rounded ${surface === option ? 'bg-picker-accent border-picker-accent text-picker-on-accent' : 'border-picker-border bg-picker-surface'}`}
+              >
+                {option === 'calendar' ? t.calendarView : t.timelineView}
+              </button>
             ))}
-            {Array.from({ length: startIndex }, (_, i) => (
-              <div key={`empty-${i}`} className="p-2"></div>
-            ))}
-            {calendarDays.map((date) => {
-              const disabled = isDateDisabled(date, constraints, tz);
-              const inRange = isInRange(date);
-              const isStart = isRangeStart(date);
-              const isEnd = isRangeEnd(date);
-              return (
+          </div>
+        )}
+
+        {/* Calendar Grid, or the timeline in its place */}
+        {showTimeline ? renderTimeline() : picker.view !== 'day' ? (
+          <div {...picker.getCalendarProps()} className={cx('mb-4', classNames.calendar)}>
+            <div className="flex justify-between items-center mb-2">
+              <button {...picker.getPreviousButtonProps()} className="p-1 hover:bg-picker-hover rounded">
+                <span className="text-lg">{isRtl ? '›' : '‹'}</span>
+              </button>
+              <button {...picker.getViewTitleProps()} className="px-2 py-0.5 text-sm font-bold rounded hover:bg-picker-hover disabled:hover:bg-transparent">
+                {picker.viewTitle}
+              </button>
+              <button {...picker.getNextButtonProps()} className="p-1 hover:bg-picker-hover rounded">
+                <span className="text-lg">{isRtl ? '‹' : '›'}</span>
+              </button>
+            </div>
+            <div className={`grid ${periodColumns} gap-1 text-xs`}>
+              {picker.periods.map(period => (
                 <button
-                  key={date.toISOString()}
-                  data-date={date.toISOString()}
-                  disabled={disabled}
-                  onClick={() => handleDateSelect(date)}
-                  onFocus={() => setFocusedDate(date)}
-                  className={`p-2 text-center rounded transition-colors focus:outline-none ${disabled
-                      ? 'text-gray-300'
-                      : inRange
-                        ? 'bg-blue-50 text-blue-800'
-                        : 'hover:bg-gray-50 text-gray-700'
-                    } ${isStart || isEnd ? 'bg-blue-600 !text-white font-bold' : ''}`}
+                  key={period.date.toISOString()}
+                  {...picker.getPeriodProps(period)}
+                  className={cx(`py-3 text-center rounded transition-colors focus:outline-none ${period.disabled
+                      ? 'text-picker-text-disabled'
+                      : period.isStart || period.isEnd
+                        ? 'bg-picker-accent text-picker-on-accent font-bold'
+                        : period.inRange
+                          ? 'bg-picker-range text-picker-range-text'
+                          : period.inPreview
+                            ? 'bg-picker-preview text-picker-preview-text'
+                            : 'hover:bg-picker-muted text-picker-text'
+                    }`, classNames.dayCell)}
                 >
-                  {formatInTimezone(date, tz, 'd')}
+                  {period.label}
                 </button>
-              );
-            })}
+              ))}
+            </div>
           </div>
-        </div>
+        ) : (
+          <div {...picker.getCalendarProps()} className={cx('mb-4', picker.calendarMonths.length > 1 && 'flex gap-6', classNames.calendar)}>
+            {picker.calendarMonths.map((calendarMonth, monthIndex) => (
+              <div key={calendarMonth.month.toISOString()} className="flex-1">
+                <div className="flex justify-between items-center mb-2">
+                  <button
+                    {...picker.getPreviousButtonProps()}
+                    className={`p-1 hover:bg-picker-hover rounded ${monthIndex === 0 ? '' : 'invisible'}`}
+                  >
+                    <span className="text-lg">{isRtl ? '›' : '‹'}</span>
+                  </button>
+                  <span className="text-sm font-bold">
+                    <button {...picker.getViewTitleProps()} className="px-1 rounded hover:bg-picker-hover disabled:hover:bg-transparent">
+                      {picker.formatDate(calendarMonth.month, 'LLLL yyyy')}
+                    </button>
+                    {calendarMonth.loading && <span className="ms-2 text-[11px] font-normal text-picker-text-subtle">{t.loadingDays}</span>}
+                  </span>
+                  <button
+                    {...picker.getNextButtonProps()}
+                    className={`p-1 hover:bg-picker-hover rounded ${monthIndex === picker.calendarMonths.length - 1 ? '' : 'invisible'}`}
+                  >
+                    <span className="text-lg">{isRtl ? '‹' : '›'}</span>
+                  </button>
+                </div>
+                <div className="flex">
+                  {showWeekNumbers && (
+                    <div aria-hidden="true" className="flex flex-col text-[10px] text-picker-text-subtle">
+                      <div className="p-2 text-center font-medium">{t.weekNumber}</div>
+                      {calendarMonth.weekNumbers.map((week, i) => (
+                        <div key={`${week}-${i}`} className="p-2 text-center">{week}</div>
+                      ))}
+                    </div>
+                  )}
+                  <div {...picker.getGridProps(calendarMonth)} aria-busy={calendarMonth.loading || undefined} className="flex-1 grid grid-cols-7 text-[11px]">
+                    <div {...picker.getRowProps()} className="contents">
+                      {picker.weekDays.map((day, i) => (
+                        <div key={`${day}-${i}`} {...picker.getColumnHeaderProps(i)} className="p-2 text-center text-picker-text-subtle font-medium">
+                          <span aria-hidden="true">{day}</span>
+                        </div>
+                      ))}
+                    </div>
+                    {calendarMonth.weeks.map((week, row) => (
+                      <div key={row} {...picker.getRowProps()} className="contents">
+                        {week.map((day, column) => day ? (
+                          <div key={day.date.toISOString()} {...picker.getDayCellProps(day)} className="flex">
+                            <button
+                              {...picker.getDayProps(day)}
+                              className={cx(`flex-1 relative isolate p-2 text-center rounded transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-picker-focus ${day.disabled
+                                  ? 'text-picker-text-disabled'
+                                  : day.inRange
+                                    ? 'bg-picker-range text-picker-range-text'
+                                    : day.inPreview
+                                      ? 'bg-picker-preview text-picker-preview-text'
+                                      : day.inComparison
+                                        ? 'bg-picker-comparison-soft text-picker-comparison-text'
+                                        : day.otherRangeIndex !== null
+                                          ? 'bg-picker-other text-picker-other-text'
+                                          : 'hover:bg-picker-muted text-picker-text'
+                                } ${day.isComparisonStart || day.isComparisonEnd ? 'bg-picker-comparison !text-picker-on-accent font-bold' : ''} ${day.isStart || day.isEnd ? 'bg-picker-accent !text-picker-on-accent font-bold' : ''}`, classNames.dayCell)}
+                            >
+                              {renderDayContent(day, (
+                                <>
+                                  {day.meta?.intensity !== undefined && !day.disabled && !day.isStart && !day.isEnd && (
+                                    <span
+                                      aria-hidden="true"
+                                      className="absolute inset-0.5 -z-10 rounded bg-picker-heat pointer-events-none"
+                                      style={{ opacity: Math.min(1, Math.max(0, day.meta.intensity)) * 0.35 }}
+                                    />
+                                  )}
+                                  {picker.formatDate(day.date, 'd')}
+                                  {day.meta?.count !== undefined && (
+                                    <span aria-hidden="true" className="absolute -top-1 -end-1 min-w-[1rem] px-0.5 rounded-full bg-picker-badge text-picker-surface text-[9px] leading-4">
+                                      {day.meta.count > 99 ? '99+' : day.meta.count}
+                                    </span>
+                                  )}
+                                  {day.meta?.dots && day.meta.dots.length > 0 && (
+                                    <span aria-hidden="true" className="absolute bottom-0.5 inset-x-0 flex justify-center gap-0.5">
+                                      {day.meta.dots.slice(0, 3).map((color, i) => (
+                                        <span key={i} className="w-1 h-1 rounded-full" style={{ backgroundColor: color }} />
+                                      ))}
+                                    </span>
+                                  )}
+                                </>
+                              ))}
+                            </button>
+                          </div>
+                        ) : (
+                          <div key={`empty-${column}`} {...picker.getDayCellProps(null)} className="p-2" />
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
 
-        {/* Time Settings */}
-        <div className="flex gap-2">
-          <div className="flex-1">
-            <label className="block text-xs font-medium text-gray-500 mb-1">Start Time</label>
-            <div className="flex border border-gray-300 rounded p-1 text-xs">
-              <input
-                type="number" min="0" max="23" value={startTime.hour}
-                onChange={(e) => handleTimeChange('start', 'hour', parseInt(e.target.value) || 0)}
-                className="w-full text-center outline-none"
-              />
-              <span className="px-0.5">:</span>
-              <input
-                type="number" min="0" max="59" value={startTime.minute}
-                onChange={(e) => handleTimeChange('start', 'minute', parseInt(e.target.value) || 0)}
-                className="w-full text-center outline-none"
-              />
+        {/* Time Settings; coarser granularities always cover whole days */}
+        {granularity === 'day' && (
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <label className="block text-xs font-medium text-picker-text-muted mb-1">{t.startTime}</label>
+              {renderTimeInputs('start')}
+              {renderErrors('start', 'mt-1')}
             </div>
-          </div>
-          <div className="flex-1">
-            <label className="block text-xs font-medium text-gray-500 mb-1">End Time</label>
-            <div className="flex border border-gray-300 rounded p-1 text-xs">
-              <input
-                type="number" min="0" max="23" value={endTime.hour}
-                onChange={(e) => handleTimeChange('end', 'hour', parseInt(e.target.value) || 0)}
-                className="w-full text-center outline-none"
-              />
-              <span className="px-0.5">:</span>
-              <input
-                type="number" min="0" max="59" value={endTime.minute}
-                onChange={(e) => handleTimeChange('end', 'minute', parseInt(e.target.value) || 0)}
-                className="w-full text-center outline-none"
-              />
+            <div className="flex-1">
+              <label className="block text-xs font-medium text-picker-text-muted mb-1">{t.endTime}</label>
+              {renderTimeInputs('end')}
+              {renderErrors('end', 'mt-1')}
             </div>
           </div>
-        </div>
+        )}
       </div>
 
-      {error && <div className="px-5 pb-3 text-[11px] text-red-600">{error}</div>}
+      {granularity !== 'day' && renderErrors('start', 'px-5 pb-3')}
+      {granularity !== 'day' && renderErrors('end', 'px-5 pb-3')}
+      {renderErrors('range', 'px-5 pb-3')}
+      {picker.validating && <div className="px-5 pb-3 text-[11px] text-picker-text-muted">{t.validating}</div>}
+      <div {...picker.getAnnouncementProps()} className="sr-only">{picker.announcement}</div>
 
       {/* Simplified Footer Actions */}
-      <div className="px-5 py-3 border-t border-gray-200 flex justify-end gap-2 bg-gray-50">
+      <div className={cx('px-5 py-3 border-t border-picker-divider flex justify-end items-center gap-2 bg-picker-muted', classNames.footer)}>
+        {picker.dirty && <span className="me-auto text-[11px] text-picker-text-muted">{t.unsavedChanges}</span>}
         <button
-          onClick={onCancel}
-          className="px-3 py-1.5 text-xs font-medium text-gray-600 hover:bg-gray-200 rounded transition-colors"
+          {...picker.getCancelProps()}
+          className={cx('px-3 py-1.5 text-xs font-medium text-picker-text-muted hover:bg-picker-hover rounded transition-colors', classNames.cancelButton)}
         >
-          Cancel
+          {t.cancel}
         </button>
         <button
-          onClick={() => onApply?.(value)}
-          disabled={!!error || !value.start || !value.end}
-          className="px-4 py-1.5 text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed rounded shadow-sm transition-colors"
+          {...picker.getApplyProps()}
+          className={cx('px-4 py-1.5 text-xs font-bold text-picker-on-accent bg-picker-accent hover:bg-picker-accent-hover disabled:bg-picker-text-disabled disabled:cursor-not-allowed rounded shadow-sm transition-colors', classNames.applyButton)}
         >
-          Apply
+          {t.apply}
         </button>
       </div>
     </div>
   );
-};
+});
+DateTimeRangePicker.displayName = 'DateTimeRangePicker';
 
-export default DateTimeRangePicker;
\ No newline at end of file
+export default DateTimeRangePicker;
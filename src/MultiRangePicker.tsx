@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import DateTimeRangePicker from './DateTimeRangePicker';
+import { DateTimeRange, MultiDateTimeRange, TimeSpan, TimezoneChangeMode } from './types';
+import { formatInTimezone, mergeRanges, validateRange } from './utils';
+import { changeRangeTimezone } from './timezones';
+import { defaultMessages } from './i18n';
+
+type PickerProps = React.ComponentPropsWithoutRef<typeof DateTimeRangePicker>;
+
+interface MultiRangePickerProps extends Omit<PickerProps, 'value' | 'defaultValue' | 'onChange' | 'commitMode' | 'onDirtyChange' | 'onApply' | 'otherRanges' | 'onOtherRangeSelect' | 'onTimezoneChange' | 'validation' | 'name' | 'form' | 'required' | 'formValueFormat'> {
+  value: MultiDateTimeRange;
+  onChange: (value: MultiDateTimeRange) => void;
+  onApply?: (value: MultiDateTimeRange) => void;
+}
+
+/**
+ * Picks several disjoint ranges. Each range drawn on the calendar is added;
+ * clicking a chip or inside a range makes it the active one, and the next range
+ * drawn replaces it. Finished ranges are merged with any they overlap. Ranges
+ * that fail the constraints are never added.
+ */
+const MultiRangePicker: React.FC<MultiRangePickerProps> = ({ value, onChange, onApply, ...pickerProps }) => {
+  // Only set by picking a range; null means the next range is added.
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState<DateTimeRange | null>(null);
+  const { constraints, locale } = pickerProps;
+  const t = { ...defaultMessages, ...pickerProps.messages };
+  const tz = value.timezone;
+
+  const active = activeIndex !== null ? value.ranges[activeIndex] : undefined;
+  const pickerValue: DateTimeRange = draft ?? { start: active?.start ?? null, end: active?.end ?? null, timezone: tz };
+  const otherRanges = value.ranges.filter((_, i) => i !== activeIndex);
+
+  // Only the built-in checks: custom validators run in the picker for the active range.
+  const isValid = (range: TimeSpan) => validateRange(range.start, range.end, constraints, tz).length === 0;
+
+  // `focus` keeps the range holding it active; without it, nothing is picked and the next range is added.
+  const commit = (ranges: TimeSpan[], timezone: string, focus: Date | null) => {
+    const merged = mergeRanges(ranges);
+    const index = focus ? merged.findIndex(r => r.start <= focus && r.end >= focus) : -1;
+    setActiveIndex(index >= 0 ? index : null);
+    onChange({ ranges: merged, timezone });
+  };
+
+  // Moves every range the way the picker moves the active one; the active range stays active.
+  const handleTimezoneChange = (timezone: string, mode: TimezoneChangeMode) => {
+    const moved = value.ranges.map(range => {
+      const { start, end } = changeRangeTimezone({ ...range, timezone: tz }, timezone, mode, pickerProps.dstPolicy);
+      return { start: start ?? range.start, end: end ?? range.end };
+    });
+    commit(moved, timezone, activeIndex !== null ? moved[activeIndex]?.start ?? null : null);
+  };
+
+  const handlePickerChange = (next: DateTimeRange) => {
+    // The ranges themselves were moved by handleTimezoneChange.
+    if (next.timezone !== tz) {
+      if (draft) setDraft(next);
+      return;
+    }
+
+    const { start, end } = next;
+    if (start && end && isValid({ start, end })) {
+      // A finished range replaces the picked one, or is added when none is picked.
+      const kept = value.ranges.filter((_, i) => i !== activeIndex);
+      setDraft(null);
+      commit([...kept, { start, end }], tz, null);
+      return;
+    }
+    setDraft(next);
+  };
+
+  const startNewRange = () => {
+    setActiveIndex(null);
+    setDraft(null);
+  };
+
+  const removeRange = (index: number) => {
+    setDraft(null);
+    setActiveIndex(null);
+    onChange({ ranges: value.ranges.filter((_, i) => i !== index), timezone: tz });
+  };
+
+  const selectRange = (otherIndex: number) => {
+    // otherRanges skips the active range, so map back to an index into value.ranges.
+    const index = activeIndex !== null && otherIndex >= activeIndex ? otherIndex + 1 : otherIndex;
+    setDraft(null);
+    setActiveIndex(index);
+  };
+
+  return (
+    <div className="dtrp" data-theme={pickerProps.theme ?? 'light'}>
+      <ul className="max-w-md mx-auto mb-2 flex flex-wrap gap-2 text-xs text-picker-text" aria-label={t.ranges}>
+        {value.ranges.map((range, i) => (
+          <li key={`${range.start.toISOString()}-${range.end.toISOString()}`} className="flex">
+            <button
+              type="button"
+              aria-pressed={i === activeIndex && !draft}
+              onClick={() => {
+                setDraft(null);
+                setActiveIndex(i);
+              }}
+              className={`px-2 py-1 border rounded-l ${i === activeIndex && !draft ? 'bg-picker-accent border-picker-accent text-picker-on-accent' : 'bg-picker-surface border-picker-border'}`}
+            >
+              {formatInTimezone(range.start, tz, 'MMM d, p', locale)} – {formatInTimezone(range.end, tz, 'MMM d, p', locale)}
+            </button>
+            <button
+              type="button"
+              aria-label={t.removeRange}
+              onClick={() => removeRange(i)}
+              className="px-1.5 py-1 border border-l-0 border-picker-border rounded-r bg-picker-surface hover:bg-picker-muted"
+            >
+              ×
+            </button>
+          </li>
+        ))}
+        <li>
+          <button type="button" onClick={startNewRange} className="px-2 py-1 border border-dashed border-picker-text-subtle rounded bg-picker-surface">
+            {t.addRange}
+          </button>
+        </li>
+      </ul>
+      <DateTimeRangePicker
+        {...pickerProps}
+        value={pickerValue}
+        onChange={handlePickerChange}
+        onApply={() => onApply?.(value)}
+        otherRanges={otherRanges}
+        onOtherRangeSelect={selectRange}
+        onTimezoneChange={handleTimezoneChange}
+      />
+    </div>
+  );
+};
+
+export default MultiRangePicker;
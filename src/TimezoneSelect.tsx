@@ -0,0 +1,91 @@
+import React, { useId, useMemo, useState } from 'react';
+import { formatTimezoneLabel, getSupportedTimezones } from './timezones';
+import { defaultMessages } from './i18n';
+import { Messages } from './types';
+
+interface TimezoneSelectProps {
+  id?: string | undefined;
+  value: string;
+  onChange: (timezone: string) => void;
+  timezones?: string[] | undefined; // Restricts the list and sets its order
+  pinned?: string[] | undefined; // Always listed first, above the search results
+  messages?: Pick<Messages, 'searchTimezones' | 'pinnedTimezones' | 'allTimezones'> | undefined;
+  now?: (() => Date) | undefined; // Clock for the offsets in the labels; defaults to the system time
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A stable default, so the options memo isn't rebuilt on every render.
+const NO_PINNED: string[] = [];
+
+const TimezoneSelect: React.FC<TimezoneSelectProps> = ({
+  id,
+  value,
+  onChange,
+  timezones,
+  pinned = NO_PINNED,
+  messages = defaultMessages,
+  now = () => new Date(),
+}) => {
+  const [query, setQuery] = useState('');
+  const ownId = useId();
+  const selectId = id ?? ownId;
+
+  // Labelled as of the start of the hour, so they are built once an hour rather than on every keystroke.
+  const hour = Math.floor(now().getTime() / HOUR_MS);
+  const options = useMemo(() => {
+    const at = new Date(hour * HOUR_MS);
+    const all = timezones ?? getSupportedTimezones();
+    return new Map(all.map(tz => [tz, formatTimezoneLabel(tz, at)]));
+  }, [timezones, hour]);
+
+  const { pinnedOptions, otherOptions } = useMemo(() => {
+    const toOption = (tz: string) => ({ tz, label: options.get(tz) ?? formatTimezoneLabel(tz, new Date(hour * HOUR_MS)) });
+    const needle = query.trim().toLowerCase().replace(/\s+/g, '_');
+    const matches = (option: { tz: string; label: string }) =>
+      !needle || option.tz.toLowerCase().includes(needle) || option.label.toLowerCase().includes(needle.replace(/_/g, ' '));
+
+    const pinnedOptions = pinned.filter(tz => !timezones || timezones.includes(tz)).map(toOption);
+    const otherOptions = Array.from(options.keys()).filter(tz => !pinned.includes(tz)).map(toOption).filter(matches);
+    // Keep the current zone selectable even when the search hides it.
+    if (!pinned.includes(value) && !otherOptions.some(o => o.tz === value)) {
+      otherOptions.unshift(toOption(value));
+    }
+    return { pinnedOptions, otherOptions };
+  }, [options, hour, timezones, pinned, query, value]);
+
+  return (
+    <div>
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder={messages.searchTimezones}
+        aria-label={messages.searchTimezones}
+        aria-controls={selectId}
+        className="w-full text-sm p-1.5 mb-1 border border-picker-border rounded bg-picker-surface outline-none focus:border-picker-focus"
+      />
+      <select
+        id={selectId}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full text-sm p-1.5 border border-picker-border rounded bg-picker-surface outline-none focus:border-picker-focus"
+      >
+        {pinnedOptions.length > 0 && (
+          <optgroup label={messages.pinnedTimezones}>
+            {pinnedOptions.map(({ tz, label }) => (
+              <option key={tz} value={tz}>{label}</option>
+            ))}
+          </optgroup>
+        )}
+        <optgroup label={messages.allTimezones}>
+          {otherOptions.map(({ tz, label }) => (
+            <option key={tz} value={tz}>{label}</option>
+          ))}
+        </optgroup>
+      </select>
+    </div>
+  );
+};
+
+export default TimezoneSelect;
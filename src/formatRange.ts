@@ -0,0 +1,101 @@
+import { formatDuration, Locale } from 'date-fns';
+import { HourCycle, TimeSpan } from './types';
+import { getDayBounds, isSameZonedDay } from './utils';
+import { formatUtcOffset, getTimezoneAbbreviation } from './timezones';
+import { getHourCycle } from './i18n';
+
+export type RangeFormatStyle = 'short' | 'medium' | 'long';
+
+export interface FormatRangeOptions {
+  style?: RangeFormatStyle | undefined; // Defaults to 'medium'
+  locale?: Locale | undefined;
+  hourCycle?: HourCycle | undefined; // Defaults to the locale's clock, or en-US's 12h without a locale
+  seconds?: boolean | undefined;
+  timezone?: boolean | undefined; // Appends the zone; defaults to on except for 'short'
+  duration?: boolean | undefined; // Appends the duration; defaults to on for 'long'
+}
+
+const DATE_OPTIONS: Record<RangeFormatStyle, Intl.DateTimeFormatOptions> = {
+  short: { month: 'short', day: 'numeric' },
+  medium: { month: 'short', day: 'numeric', year: 'numeric' },
+  long: { weekday: 'short', month: 'long', day: 'numeric', year: 'numeric' },
+};
+
+const DURATION_UNITS = [
+  ['days', 24 * 60 * 60 * 1000],
+  ['hours', 60 * 60 * 1000],
+  ['minutes', 60 * 1000],
+  ['seconds', 1000],
+] as const;
+
+// formatRange is ES2021; older runtimes get both ends in full.
+type RangeDateTimeFormat = Intl.DateTimeFormat & { formatRange?: (start: Date, end: Date) => string };
+
+const formatSpan = (start: Date, end: Date, localeCode: string, options: Intl.DateTimeFormatOptions): string => {
+  const formatter: RangeDateTimeFormat = new Intl.DateTimeFormat(localeCode, options);
+  return formatter.formatRange ? formatter.formatRange(start, end) : `${formatter.format(start)} – ${formatter.format(end)}`;
+};
+
+const isDayStart = (date: Date, tz: string) => getDayBounds(date, tz).start.getTime() === date.getTime();
+
+/**
+ * A duration as words in the locale, keeping the largest `maxUnits` units from
+ * days down to seconds: 2 days 6 hours 20 minutes becomes "2 days 6 hours".
+ * Days are 24 hours, whatever DST does to the calendar days involved.
+ */
+export const formatHumanDuration = (ms: number, { locale, maxUnits = 2 }: { locale?: Locale | undefined; maxUnits?: number } = {}): string => {
+  let rest = Math.abs(ms);
+  const amounts = DURATION_UNITS.map(([unit, size]) => {
+    const amount = Math.floor(rest / size);
+    rest -= amount * size;
+    return [unit, amount] as const;
+  });
+  const first = amounts.findIndex(([, amount]) => amount > 0);
+  const kept = first === -1 ? [] : amounts.slice(first, first + maxUnits).filter(([, amount]) => amount > 0);
+  const duration = kept.length > 0 ? Object.fromEntries(kept) : { minutes: 0 };
+  return formatDuration(duration, { zero: true, ...(locale && { locale }) });
+};
+
+/**
+ * A range as short text in its zone, writing the parts both ends share once:
+ * "Jan 3 – 5, 2024, 9:00 AM – 5:00 PM EST", "Mar 2, 2024, 14:00 – 16:30 (UTC+01:00)".
+ * Ranges of whole days (ending at midnight or at 23:59 on the last day) leave
+ * out the times. Month names, order and punctuation follow the locale.
+ */
+export const formatRange = (range: TimeSpan & { timezone: string }, options: FormatRangeOptions = {}): string => {
+  const { start, end, timezone: tz } = range;
+  const { style = 'medium', locale, seconds = false } = options;
+  const localeCode = locale?.code ?? 'en-US';
+  const clock = options.hourCycle ?? (locale ? getHourCycle(locale) : 12);
+  const dateOptions: Intl.DateTimeFormatOptions = { ...DATE_OPTIONS[style], timeZone: tz };
+  const timeOptions: Intl.DateTimeFormatOptions = {
+    hour: 'numeric',
+    minute: '2-digit',
+    ...(seconds && { second: '2-digit' as const }),
+    hourCycle: clock === 12 ? 'h12' : 'h23',
+    timeZone: tz,
+  };
+
+  const endsAtMidnight = end > start && isDayStart(end, tz);
+  const wholeDays = isDayStart(start, tz) && (endsAtMidnight || [60 * 1000, 1000, 1].some(ms => isDayStart(new Date(end.getTime() + ms), tz)));
+  const lastDay = endsAtMidnight ? new Date(end.getTime() - 1) : end;
+
+  let text: string;
+  if (wholeDays) {
+    text = formatSpan(start, lastDay, localeCode, dateOptions);
+  } else if (isSameZonedDay(start, end, tz)) {
+    text = formatSpan(start, end, localeCode, { ...dateOptions, ...timeOptions });
+  } else {
+    const time = new Intl.DateTimeFormat(localeCode, timeOptions);
+    text = `${formatSpan(start, lastDay, localeCode, dateOptions)}, ${time.format(start)} – ${time.format(end)}`;
+  }
+
+  if (options.timezone ?? style !== 'short') {
+    const names = Array.from(new Set([start, end].map(date => getTimezoneAbbreviation(tz, date) ?? formatUtcOffset(tz, date))));
+    text += names.length === 1 && getTimezoneAbbreviation(tz, start) ? ` ${names[0]}` : ` (${names.join(' – ')})`;
+  }
+  if (options.duration ?? style === 'long') {
+    text += ` (${formatHumanDuration(end.getTime() - start.getTime(), { locale })})`;
+  }
+  return text;
+};
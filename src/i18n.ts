@@ -0,0 +1,121 @@
+import { format, Locale } from 'date-fns';
+import { HourCycle, Messages, TextDirection, ValidationError, WeekDay } from './types';
+
+export const defaultMessages: Messages = {
+  selectedRange: 'SELECTED RANGE',
+  rollingRange: 'Rolling',
+  announceStart: (start) => `Start ${start} selected; choose an end date`,
+  announceRange: (start, end, duration) => `Selected ${start} to ${end}, ${duration}`,
+  start: 'Start',
+  end: 'End',
+  timezone: 'Timezone',
+  searchTimezones: 'Search timezones',
+  pinnedTimezones: 'Pinned',
+  allTimezones: 'All timezones',
+  keepWallClock: 'Keep wall-clock time when changing zone',
+  compareTo: 'Compare to',
+  compareNone: 'No comparison',
+  comparePreviousPeriod: 'Previous period',
+  comparePreviousYear: 'Same period last year',
+  compareCustom: 'Custom range',
+  primaryRange: 'Primary',
+  ranges: 'Selected ranges',
+  addRange: '+ New range',
+  removeRange: 'Remove range',
+  savedPresets: 'Saved',
+  recentRanges: 'Recent',
+  savePreset: 'Save current range',
+  presetName: 'Preset name',
+  save: 'Save',
+  renamePreset: (label) => `Rename ${label}`,
+  deletePreset: (label) => `Delete ${label}`,
+  comparisonRange: 'Comparison',
+  typeRange: 'Type a range',
+  typeRangePlaceholder: 'e.g. last 7 days, yesterday 9am to 5pm',
+  previousMonth: 'Previous month',
+  nextMonth: 'Next month',
+  previousYear: 'Previous year',
+  nextYear: 'Next year',
+  previousDecade: 'Previous decade',
+  nextDecade: 'Next decade',
+  chooseMonth: 'Choose a month',
+  chooseYear: 'Choose a year',
+  quarter: (n) => `Q${n}`,
+  weekNumber: 'Week',
+  openCalendar: 'Open calendar',
+  year: 'year',
+  month: 'month',
+  day: 'day',
+  hour: 'hour',
+  minute: 'minute',
+  second: 'second',
+  millisecond: 'millisecond',
+  meridiem: 'AM/PM',
+  timeSlots: 'Time slots',
+  ambiguousTime: (offset) => `This time happens twice because of a clock change; using ${offset}`,
+  skippedTime: (time) => `The clocks skip this time; moved to ${time}`,
+  unresolvableTime: 'This time is skipped or repeated by a clock change; pick another',
+  startTime: 'Start Time',
+  endTime: 'End Time',
+  cancel: 'Cancel',
+  apply: 'Apply',
+  unsavedChanges: 'Unsaved changes',
+  incompleteRange: 'Choose both a start and an end',
+  calendarView: 'Calendar',
+  timelineView: 'Timeline',
+  am: 'AM',
+  pm: 'PM',
+  unparseableText: (text) => `Couldn't understand "${text}"`,
+  unavailableDate: 'That range includes an unavailable date',
+  beforeMin: 'Earlier than the first available date',
+  afterMax: 'Later than the last available date',
+  endBeforeStart: 'End is before start',
+  minDuration: (minutes) => `Duration must be at least ${minutes} minutes`,
+  maxDuration: (minutes) => `Duration must be at most ${minutes} minutes`,
+  startOutsideAllowedHours: 'Start time is outside the allowed hours',
+  endOutsideAllowedHours: 'End time is outside the allowed hours',
+  endpointInBlackout: 'Range starts or ends during a blackout period',
+  overlapsBlackout: 'Range overlaps a blackout period',
+  loadingDays: 'Loading…',
+  validating: 'Checking availability…',
+  validationFailed: "Couldn't check this range",
+  invalidRange: 'This range is not available',
+};
+
+/** The text for a validation error; custom codes fall back to their own `message`. */
+export const getErrorMessage = (error: ValidationError, messages: Messages = defaultMessages): string => {
+  switch (error.code) {
+    case 'beforeMin': return messages.beforeMin;
+    case 'afterMax': return messages.afterMax;
+    case 'unavailableDate': return messages.unavailableDate;
+    case 'outsideAllowedHours': return error.field === 'end' ? messages.endOutsideAllowedHours : messages.startOutsideAllowedHours;
+    case 'inBlackout': return messages.endpointInBlackout;
+    case 'endBeforeStart': return messages.endBeforeStart;
+    case 'minDuration': return messages.minDuration(Number(error.params.minutes));
+    case 'maxDuration': return messages.maxDuration(Number(error.params.minutes));
+    case 'overlapsBlackout': return messages.overlapsBlackout;
+    case 'validationFailed': return messages.validationFailed;
+    default: return error.message ?? messages.invalidRange;
+  }
+};
+
+const RTL_LANGUAGES = ['ar', 'fa', 'he', 'ur', 'ps', 'yi', 'ug', 'ckb'];
+
+export const getTextDirection = (locale: Locale | undefined): TextDirection => {
+  const language = locale?.code?.split('-')[0];
+  return language && RTL_LANGUAGES.includes(language) ? 'rtl' : 'ltr';
+};
+
+/** Infers 12h/24h entry from the locale's short time format ("h:mm a" vs "HH:mm"). */
+export const getHourCycle = (locale: Locale | undefined): HourCycle => {
+  const pattern = locale?.formatLong?.time({ width: 'short' });
+  return typeof pattern === 'string' && pattern.includes('a') ? 12 : 24;
+};
+
+/** Weekday names, narrow unless `formatStr` says otherwise, starting from `weekStartsOn`. */
+export const getWeekDayLabels = (locale: Locale | undefined, weekStartsOn: WeekDay, formatStr = 'EEEEE'): string[] =>
+  Array.from({ length: 7 }, (_, i) => {
+    const day = (weekStartsOn + i) % 7;
+    // 2023-01-01 was a Sunday; only the weekday of this date matters.
+    return format(new Date(2023, 0, 1 + day), formatStr, locale ? { locale } : undefined);
+  });
@@ -0,0 +1,162 @@
+import { RelativeRange } from './types';
+import { fromWallTime, toWallTime } from './utils';
+
+type CalendarDate = { year: number; month: number; day: number };
+type TimeOfDay = { hour: number; minute: number };
+type Point = { date: CalendarDate; time: TimeOfDay | null };
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// The reading of `date` on a clock in `tz`, in the UTC fields of the result.
+const wallClockOf = (date: Date, tz: string) => new Date(toWallTime(date, tz));
+
+// Steps back whole months and days on the wall clock in `tz`; Mar 31 minus a month is Feb 29.
+const subtractCalendar = (date: Date, tz: string, months: number, days: number): Date => {
+  const wall = wallClockOf(date, tz);
+  const target = new Date(Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth() - months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(wall.getUTCDate(), lastDay) - days);
+  target.setUTCHours(wall.getUTCHours(), wall.getUTCMinutes(), wall.getUTCSeconds(), wall.getUTCMilliseconds());
+  return fromWallTime(target.getTime(), tz) as Date; // The default policy always resolves
+};
+
+// Minutes and hours are exact; longer units follow the calendar in `tz`, like rolling ranges.
+const UNIT_SUBTRACTORS: Record<string, (date: Date, amount: number, tz: string) => Date> = {
+  minute: (date, amount) => new Date(date.getTime() - amount * 60 * 1000),
+  hour: (date, amount) => new Date(date.getTime() - amount * 60 * 60 * 1000),
+  day: (date, amount, tz) => subtractCalendar(date, tz, 0, amount),
+  week: (date, amount, tz) => subtractCalendar(date, tz, 0, amount * 7),
+  month: (date, amount, tz) => subtractCalendar(date, tz, amount, 0),
+  year: (date, amount, tz) => subtractCalendar(date, tz, amount * 12, 0),
+};
+
+const RELATIVE_UNITS: Record<string, string> = { minute: 'm', hour: 'h', day: 'd', week: 'w', month: 'M', year: 'y' };
+
+const todayIn = (now: Date, tz: string): CalendarDate => {
+  const wall = wallClockOf(now, tz);
+  return { year: wall.getUTCFullYear(), month: wall.getUTCMonth() + 1, day: wall.getUTCDate() };
+};
+
+// Calendar arithmetic is done on UTC dates so the host timezone never leaks in.
+const shiftDays = (date: CalendarDate, days: number): CalendarDate => {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+};
+
+const weekdayOf = (date: CalendarDate) => new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+
+const toInstant = (date: CalendarDate, time: TimeOfDay, tz: string): Date =>
+  fromWallTime(Date.UTC(date.year, date.month - 1, date.day, time.hour, time.minute), tz) as Date;
+
+const parseTime = (text: string): TimeOfDay | null => {
+  const match = /^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/.exec(text);
+  if (!match) return null;
+  let hour = Number(match[1]);
+  const minute = match[2] ? Number(match[2]) : 0;
+  const meridiem = match[3];
+  if (!meridiem && !match[2]) return null; // A bare number is ambiguous
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59) return null;
+  return { hour, minute };
+};
+
+const parseDate = (text: string, today: CalendarDate): CalendarDate | null => {
+  if (text === 'today' || text === 'now') return today;
+  if (text === 'yesterday') return shiftDays(today, -1);
+  if (text === 'tomorrow') return shiftDays(today, 1);
+
+  const weekday = WEEKDAYS.findIndex(name => name === text || name.slice(0, 3) === text);
+  if (weekday >= 0) {
+    // Most recent occurrence, counting today
+    return shiftDays(today, -((weekdayOf(today) - weekday + 7) % 7));
+  }
+
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(text);
+  if (!iso) return null;
+  const date = { year: Number(iso[1]), month: Number(iso[2]), day: Number(iso[3]) };
+  const check = shiftDays(date, 0);
+  if (check.month !== date.month || check.day !== date.day) return null;
+  return date;
+};
+
+// A point is "<date>", "<date> <time>", "<time>" or "<time> <date>".
+const parsePoint = (text: string, today: CalendarDate): Point | null => {
+  const date = parseDate(text, today);
+  if (date) return { date, time: null };
+
+  const split = /^(\S+)\s+(.+)$/.exec(text);
+  if (split) {
+    const [, head = '', tail = ''] = split;
+    const leading = parseDate(head, today);
+    const trailingTime = parseTime(tail);
+    if (leading && trailingTime) return { date: leading, time: trailingTime };
+
+    const leadingTime = parseTime(head);
+    const trailing = parseDate(tail, today);
+    if (leadingTime && trailing) return { date: trailing, time: leadingTime };
+  }
+
+  const time = parseTime(text);
+  if (time) return { date: today, time };
+  return null;
+};
+
+const startOf = (point: Point, tz: string) => toInstant(point.date, point.time ?? { hour: 0, minute: 0 }, tz);
+
+const endOf = (point: Point, tz: string) =>
+  point.time ? toInstant(point.date, point.time, tz) : new Date(toInstant(shiftDays(point.date, 1), { hour: 0, minute: 0 }, tz).getTime() - 1);
+
+/**
+ * Parses free text such as "last 7 days", "yesterday 9am to 5pm",
+ * "2024-03-01 14:00 – 2024-03-02" or "since Monday" into a range whose
+ * wall-clock times are interpreted in `tz`. Returns null when the text is not understood.
+ * "Last N units" also returns the matching rolling `relative` descriptor.
+ */
+export const parseRangeText = (
+  text: string,
+  tz: string,
+  now: Date = new Date()
+): { start: Date; end: Date; relative?: RelativeRange } | null => {
+  const input = text.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (!input) return null;
+  const today = todayIn(now, tz);
+
+  const relative = /^(?:last|past) (?:(\d+) )?(minute|hour|day|week|month|year)s?$/.exec(input);
+  if (relative) {
+    const subtract = UNIT_SUBTRACTORS[relative[2] ?? ''];
+    if (!subtract) return null;
+    const amount = relative[1] ? Number(relative[1]) : 1;
+    // "Last N units" keeps rolling, like the equivalent preset.
+    return { start: subtract(now, amount, tz), end: now, relative: { start: `now-${amount}${RELATIVE_UNITS[relative[2] ?? '']}`, end: 'now' } };
+  }
+
+  const since = /^since (.+)$/.exec(input);
+  if (since) {
+    const point = parsePoint(since[1] ?? '', today);
+    if (!point) return null;
+    const start = startOf(point, tz);
+    return start <= now ? { start, end: now } : null;
+  }
+
+  const parts = input.split(/\s+(?:to|until|through|-)\s+|\s*[–—]\s*/);
+  if (parts.length === 1) {
+    const point = parsePoint(input, today);
+    if (!point || point.time) return null;
+    return { start: startOf(point, tz), end: endOf(point, tz) };
+  }
+  if (parts.length !== 2) return null;
+
+  const from = parsePoint(parts[0] ?? '', today);
+  if (!from) return null;
+  // A bare time on the right ("yesterday 9am to 5pm") stays on the left-hand day.
+  const endTime = parseTime(parts[1] ?? '');
+  const to = endTime ? { date: from.date, time: endTime } : parsePoint(parts[1] ?? '', today);
+  if (!to) return null;
+
+  const start = startOf(from, tz);
+  const end = endOf(to, tz);
+  return start < end ? { start, end } : null;
+};
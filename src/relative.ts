@@ -0,0 +1,82 @@
+import { DateTimeRange, WeekDay } from './types';
+import { fromWallTime, syncComparison, toWallTime } from './utils';
+
+type RelativeUnit = 's' | 'm' | 'h' | 'd' | 'w' | 'M' | 'y';
+type Step = { type: 'offset'; amount: number; unit: RelativeUnit } | { type: 'snap'; unit: RelativeUnit };
+
+const UNIT_MS: Partial<Record<RelativeUnit, number>> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const floorTo = (wall: number, size: number) => wall - (((wall % size) + size) % size);
+
+// Months and years keep the day of the month where they can: Mar 31 minus one month is Feb 29.
+const addCalendarMonths = (wall: number, months: number) => {
+  const date = new Date(wall);
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return target.getTime() + wall - floorTo(wall, DAY_MS);
+};
+
+const addDays = (wall: number, days: number) => wall + days * DAY_MS;
+
+// Calendar steps on wall times (see toWallTime), so they never depend on the host zone.
+const CALENDAR_ADDERS: Partial<Record<RelativeUnit, (wall: number, amount: number) => number>> = {
+  d: addDays,
+  w: (wall, amount) => wall + amount * 7 * DAY_MS,
+  M: addCalendarMonths,
+  y: (wall, amount) => addCalendarMonths(wall, amount * 12),
+};
+
+const SNAPPERS: Record<RelativeUnit, (wall: number, weekStartsOn: WeekDay) => number> = {
+  s: wall => floorTo(wall, 1000),
+  m: wall => floorTo(wall, 60 * 1000),
+  h: wall => floorTo(wall, 60 * 60 * 1000),
+  d: wall => floorTo(wall, DAY_MS),
+  w: (wall, weekStartsOn) => floorTo(wall, DAY_MS) - ((new Date(wall).getUTCDay() - weekStartsOn + 7) % 7) * DAY_MS,
+  M: wall => Date.UTC(new Date(wall).getUTCFullYear(), new Date(wall).getUTCMonth(), 1),
+  y: wall => Date.UTC(new Date(wall).getUTCFullYear(), 0, 1),
+};
+
+const parseSteps = (expression: string): Step[] | null => {
+  const match = /^now((?:[+-]\d+[smhdwMy]|\/[smhdwMy])*)$/.exec(expression.trim());
+  if (!match) return null;
+  return Array.from((match[1] ?? '').matchAll(/([+-]\d+|\/)([smhdwMy])/g), ([, op = '', unit]) =>
+    op === '/'
+      ? { type: 'snap' as const, unit: unit as RelativeUnit }
+      : { type: 'offset' as const, amount: Number(op), unit: unit as RelativeUnit });
+};
+
+export const isRelativeTime = (expression: string): boolean => parseSteps(expression) !== null;
+
+/**
+ * Resolves an expression such as "now-24h" or "now-1d/d" against `now`.
+ * Seconds, minutes and hours are exact; days and longer, and every snap,
+ * follow the wall clock in `tz`, so "now-1d/d" is local midnight yesterday
+ * even across a DST change. Returns null for an invalid expression.
+ */
+export const resolveRelativeTime = (expression: string, now: Date, tz: string, weekStartsOn: WeekDay = 1): Date | null => {
+  const steps = parseSteps(expression);
+  if (!steps) return null;
+  return steps.reduce((date, step) => {
+    const exact = UNIT_MS[step.unit];
+    if (step.type === 'offset' && exact) return new Date(date.getTime() + step.amount * exact);
+    const wall = toWallTime(date, tz);
+    const moved = step.type === 'snap'
+      ? SNAPPERS[step.unit](wall, weekStartsOn)
+      : (CALENDAR_ADDERS[step.unit] ?? addDays)(wall, step.amount);
+    return fromWallTime(moved, tz) as Date; // The default policy always resolves
+  }, now);
+};
+
+/**
+ * Re-resolves a rolling range at `now`, updating a derived comparison with it.
+ * Ranges without `relative`, or with an invalid expression, are returned as they are.
+ */
+export const resolveRelativeRange = (range: DateTimeRange, now: Date = new Date(), weekStartsOn: WeekDay = 1): DateTimeRange => {
+  if (!range.relative) return range;
+  const start = resolveRelativeTime(range.relative.start, now, range.timezone, weekStartsOn);
+  const end = resolveRelativeTime(range.relative.end, now, range.timezone, weekStartsOn);
+  if (!start || !end) return range;
+  return syncComparison({ ...range, start, end });
+};
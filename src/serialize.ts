@@ -0,0 +1,139 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import { DateTimeRange } from './types';
+import { isValidTimezone } from './timezones';
+import { isRelativeTime, resolveRelativeRange } from './relative';
+
+const DURATION_UNITS: [string, number][] = [
+  ['W', 7 * 24 * 60 * 60 * 1000],
+  ['D', 24 * 60 * 60 * 1000],
+  ['H', 60 * 60 * 1000],
+  ['M', 60 * 1000],
+  ['S', 1000],
+];
+
+/** An instant as ISO 8601 with the offset `tz` has at that moment, e.g. "2024-03-01T09:00:00-05:00". */
+export const formatInstant = (date: Date, tz: string): string =>
+  formatInTimeZone(date, tz, date.getMilliseconds() ? "yyyy-MM-dd'T'HH:mm:ss.SSSXXX" : "yyyy-MM-dd'T'HH:mm:ssXXX");
+
+const parseInstant = (text: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/.exec(text);
+  if (!match) return null;
+  const date = new Date(text);
+  if (isNaN(date.getTime())) return null;
+  // Date rolls impossible days over ("02-30" becomes March 1st), so check the day still reads the same.
+  const [year, month, day] = match.slice(1, 4).map(Number) as [number, number, number];
+  const calendarDay = new Date(Date.UTC(year, month - 1, day));
+  const sameDay = calendarDay.getUTCFullYear() === year && calendarDay.getUTCMonth() === month - 1 && calendarDay.getUTCDate() === day;
+  return sameDay ? date : null;
+};
+
+/** Exact durations only (PnWnDTnHnMnS): months and years have no fixed length. */
+export const formatIsoDuration = (ms: number): string => {
+  let remaining = Math.max(0, ms);
+  const days = Math.floor(remaining / (24 * 60 * 60 * 1000));
+  remaining -= days * 24 * 60 * 60 * 1000;
+  const hours = Math.floor(remaining / (60 * 60 * 1000));
+  remaining -= hours * 60 * 60 * 1000;
+  const minutes = Math.floor(remaining / (60 * 1000));
+  const seconds = (remaining - minutes * 60 * 1000) / 1000;
+  const time = `${hours ? `${hours}H` : ''}${minutes ? `${minutes}M` : ''}${seconds ? `${seconds}S` : ''}`;
+  if (!days && !time) return 'PT0S';
+  return `P${days ? `${days}D` : ''}${time ? `T${time}` : ''}`;
+};
+
+export const parseIsoDuration = (text: string): number | null => {
+  const match = /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/.exec(text);
+  if (!match || text === 'P' || text.endsWith('T')) return null;
+  return DURATION_UNITS.reduce((total, [, ms], i) => total + Number(match[i + 1] ?? 0) * ms, 0);
+};
+
+/**
+ * Serializes a range as an ISO 8601 interval with the zone appended in
+ * brackets (RFC 9557), e.g. "2024-03-01T09:00:00-05:00/PT8H[America/New_York]".
+ * Open ends are written as "..". A rolling range keeps its expressions instead,
+ * e.g. "now-24h/now[UTC]"; this is not ISO 8601, but parseIsoInterval reads it back.
+ */
+export const toIsoInterval = (range: DateTimeRange, options: { duration?: boolean } = {}): string => {
+  const { start, end, timezone, relative } = range;
+  if (relative) return `${relative.start}/${relative.end}[${timezone}]`;
+  const startText = start ? formatInstant(start, timezone) : '..';
+  const endText = end
+    ? options.duration && start ? formatIsoDuration(end.getTime() - start.getTime()) : formatInstant(end, timezone)
+    : '..';
+  return `${startText}/${endText}[${timezone}]`;
+};
+
+// Snaps use "/" too ("now/d"), but the second expression always starts with "now".
+const parseRelativeInterval = (text: string, fallbackTimezone: string, now: Date): DateTimeRange | null => {
+  const match = /^(.+?)(?:\[([^\]]+)\])?$/.exec(text);
+  const [, body = '', timezone = fallbackTimezone] = match ?? [];
+  const separator = body.indexOf('/now');
+  const relative = { start: body.slice(0, separator), end: body.slice(separator + 1) };
+  if (separator < 0 || !isRelativeTime(relative.start) || !isRelativeTime(relative.end) || !isValidTimezone(timezone)) return null;
+  return resolveRelativeRange({ start: null, end: null, timezone, relative }, now);
+};
+
+/**
+ * Accepts "start/end" and "start/duration", with or without a zone suffix.
+ * Rolling ranges ("now-7d/now[...]") are resolved at `now`.
+ */
+export const parseIsoInterval = (text: string, fallbackTimezone = 'UTC', now: Date = new Date()): DateTimeRange | null => {
+  if (text.trim().startsWith('now')) return parseRelativeInterval(text.trim(), fallbackTimezone, now);
+  const match = /^([^/[]+)\/([^/[]+)(?:\[([^\]]+)\])?$/.exec(text.trim());
+  if (!match) return null;
+  const [, startText = '', endText = '', timezone = fallbackTimezone] = match;
+  if (!isValidTimezone(timezone)) return null;
+
+  const start = startText === '..' ? null : parseInstant(startText);
+  if (startText !== '..' && !start) return null;
+
+  let end: Date | null = null;
+  if (endText.startsWith('P')) {
+    const duration = parseIsoDuration(endText);
+    if (duration === null || !start) return null;
+    end = new Date(start.getTime() + duration);
+  } else if (endText !== '..') {
+    end = parseInstant(endText);
+    if (!end) return null;
+  }
+  if (start && end && end < start) return null;
+  return { start, end, timezone };
+};
+
+/**
+ * Compact form for query strings: base-36 epoch milliseconds and the zone,
+ * e.g. "lt8q1fk0_lt976ps0_America.New_York". Only uses characters that
+ * URLSearchParams leaves unescaped.
+ */
+export const toCompactRange = (range: DateTimeRange): string => {
+  const encode = (date: Date | null) => (date ? date.getTime().toString(36) : '');
+  // Rolling ranges keep their expressions, escaped like the zone: "now-1d.d_now.d_UTC".
+  const escape = (text: string) => text.replace(/\//g, '.').replace(/\+/g, '*');
+  const zone = escape(range.timezone);
+  if (range.relative) return `${escape(range.relative.start)}_${escape(range.relative.end)}_${zone}`;
+  return `${encode(range.start)}_${encode(range.end)}_${zone}`;
+};
+
+export const parseCompactRange = (text: string, now: Date = new Date()): DateTimeRange | null => {
+  const [startText, endText, ...zoneParts] = text.split('_');
+  if (startText === undefined || endText === undefined || zoneParts.length === 0) return null;
+  if (startText.startsWith('now')) {
+    const unescape = (part: string) => part.replace(/\./g, '/').replace(/\*/g, '+');
+    const relative = { start: unescape(startText), end: unescape(endText) };
+    const timezone = unescape(zoneParts.join('_'));
+    if (!isRelativeTime(relative.start) || !isRelativeTime(relative.end) || !isValidTimezone(timezone)) return null;
+    return resolveRelativeRange({ start: null, end: null, timezone, relative }, now);
+  }
+  const decode = (part: string) => {
+    if (!part) return null;
+    if (!/^-?[0-9a-z]+$/.test(part)) return undefined;
+    const date = new Date(parseInt(part, 36));
+    return isNaN(date.getTime()) ? undefined : date; // Past the range Date can hold
+  };
+  const start = decode(startText);
+  const end = decode(endText);
+  const timezone = zoneParts.join('_').replace(/\./g, '/').replace(/\*/g, '+');
+  if (start === undefined || end === undefined || !isValidTimezone(timezone)) return null;
+  if (start && end && end < start) return null;
+  return { start, end, timezone };
+};
@@ -0,0 +1,87 @@
+import { DateTimeRange, DstPolicy, TimezoneChangeMode } from './types';
+import { DEFAULT_DST_POLICY, fromWallTime, getUtcOffset, toWallTime } from './utils';
+
+// Used when the runtime has no Intl.supportedValuesOf (older Safari, Node < 18).
+export const FALLBACK_TIMEZONES = [
+  'UTC',
+  'Africa/Abidjan', 'Africa/Cairo', 'Africa/Casablanca', 'Africa/Johannesburg', 'Africa/Lagos', 'Africa/Nairobi',
+  'America/Anchorage', 'America/Argentina/Buenos_Aires', 'America/Bogota', 'America/Caracas', 'America/Chicago',
+  'America/Denver', 'America/Halifax', 'America/Lima', 'America/Los_Angeles', 'America/Mexico_City',
+  'America/New_York', 'America/Phoenix', 'America/Santiago', 'America/Sao_Paulo', 'America/St_Johns',
+  'America/Toronto', 'America/Vancouver',
+  'Asia/Bangkok', 'Asia/Dhaka', 'Asia/Dubai', 'Asia/Hong_Kong', 'Asia/Jakarta', 'Asia/Jerusalem', 'Asia/Karachi',
+  'Asia/Kathmandu', 'Asia/Kolkata', 'Asia/Manila', 'Asia/Riyadh', 'Asia/Seoul', 'Asia/Shanghai', 'Asia/Singapore',
+  'Asia/Taipei', 'Asia/Tehran', 'Asia/Tokyo',
+  'Atlantic/Azores', 'Atlantic/Reykjavik',
+  'Australia/Adelaide', 'Australia/Brisbane', 'Australia/Darwin', 'Australia/Perth', 'Australia/Sydney',
+  'Europe/Amsterdam', 'Europe/Athens', 'Europe/Berlin', 'Europe/Dublin', 'Europe/Helsinki', 'Europe/Istanbul',
+  'Europe/Lisbon', 'Europe/London', 'Europe/Madrid', 'Europe/Moscow', 'Europe/Paris', 'Europe/Rome',
+  'Europe/Stockholm', 'Europe/Warsaw', 'Europe/Zurich',
+  'Pacific/Auckland', 'Pacific/Chatham', 'Pacific/Fiji', 'Pacific/Honolulu', 'Pacific/Kiritimati',
+];
+
+export const getSupportedTimezones = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  if (typeof intl.supportedValuesOf === 'function') {
+    const zones = intl.supportedValuesOf('timeZone');
+    // Some engines leave UTC out of the canonical list.
+    return zones.includes('UTC') ? zones : ['UTC', ...zones];
+  }
+  return FALLBACK_TIMEZONES;
+};
+
+export const isValidTimezone = (tz: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const formatUtcOffset = (tz: string, date: Date = new Date()): string => {
+  const minutes = Math.round(getUtcOffset(date, tz) / 60000);
+  const sign = minutes < 0 ? '−' : '+';
+  const abs = Math.abs(minutes);
+  return `UTC${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`;
+};
+
+// One per zone: the zone list labels every zone on each rebuild.
+const shortNameFormats = new Map<string, Intl.DateTimeFormat>();
+
+/** Short name such as "EST"; null when the runtime only knows a "GMT+9" style name. */
+export const getTimezoneAbbreviation = (tz: string, date: Date = new Date()): string | null => {
+  let formatter = shortNameFormats.get(tz);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone: tz, timeZoneName: 'short' });
+    shortNameFormats.set(tz, formatter);
+  }
+  const part = formatter
+    .formatToParts(date)
+    .find(p => p.type === 'timeZoneName');
+  if (!part || /^(GMT|UTC)([+-−]|$)/.test(part.value)) return null;
+  return part.value;
+};
+
+export const formatTimezoneLabel = (tz: string, date: Date = new Date()): string => {
+  const abbreviation = getTimezoneAbbreviation(tz, date);
+  const offset = formatUtcOffset(tz, date);
+  return `${tz.replace(/_/g, ' ')} (${abbreviation ? `${offset}, ${abbreviation}` : offset})`;
+};
+
+/**
+ * Moves a range into another zone. 'instant' keeps the same moments in time;
+ * 'wallClock' keeps the clock readings, so 09:00 in New York becomes 09:00 in Tokyo.
+ * Readings the new zone skips or repeats are settled by `policy`; one it rejects keeps its instant.
+ */
+export const changeRangeTimezone = (
+  range: DateTimeRange,
+  timezone: string,
+  mode: TimezoneChangeMode,
+  policy: DstPolicy = DEFAULT_DST_POLICY
+): DateTimeRange => {
+  if (mode === 'instant') return { ...range, timezone };
+  const shift = (date: Date | null) => date && (fromWallTime(toWallTime(date, range.timezone), timezone, policy) ?? date);
+  const comparison = range.comparison && { ...range.comparison, start: shift(range.comparison.start), end: shift(range.comparison.end) };
+  return { ...range, start: shift(range.start), end: shift(range.end), comparison, timezone };
+};
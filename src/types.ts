@@ -2,17 +2,254 @@ export type DateTimeRange = {
   start: Date | null;
   end: Date | null;
   timezone: string;
+  comparison?: ComparisonRange | undefined;
+  relative?: RelativeRange | undefined; // When set, start/end are this rolling range resolved at some moment
+};
+
+// Grafana-style expressions: "now", offsets such as "now-24h" and snaps such as "now/w"
+// (start of this week), applied left to right. Units: s, m, h, d, w, M (months), y.
+export type RelativeRange = {
+  start: string;
+  end: string;
+};
+
+export type TimeSpan = {
+  start: Date;
+  end: Date;
+};
+
+// Several disjoint ranges sharing one zone, kept sorted and non-overlapping.
+export type MultiDateTimeRange = {
+  ranges: TimeSpan[];
+  timezone: string;
+};
+
+// 'previousPeriod' and 'previousYear' are derived from the primary range; 'custom' is picked by hand.
+export type ComparisonMode = 'previousPeriod' | 'previousYear' | 'custom';
+
+export type ComparisonRange = {
+  mode: ComparisonMode;
+  start: Date | null;
+  end: Date | null;
+};
+
+// Weekdays are numbered like Date#getDay: 0 = Sunday ... 6 = Saturday. Months are 1-12.
+export type BlackoutRule =
+  | { type: 'weekdays'; days: number[] } // e.g. every weekend: [0, 6]
+  | { type: 'annual'; month: number; day: number } // e.g. every Dec 25
+  | { type: 'nthWeekday'; weekday: number; nth: number; month?: number }; // nth: 1-5, or -1 for the last one
+
+export type BlackoutInterval = {
+  start: Date;
+  end: Date;
+};
+
+// Times are 'HH:mm' wall-clock strings; both ends of the window are allowed.
+export type AllowedTimeWindow = {
+  days: number[];
+  start: string;
+  end: string;
 };
 
 export type Constraints = {
   min?: Date;
   max?: Date;
   blackouts?: Date[];
+  blackoutRules?: BlackoutRule[]; // matched against calendar days in the picker's timezone
+  blackoutIntervals?: BlackoutInterval[]; // may cover only part of a day
+  allowBlackoutsInRange?: boolean; // let a range span blacked-out intervals as long as its ends don't fall inside one
+  allowedTimes?: AllowedTimeWindow[]; // when set, start and end must fall inside a window for their weekday
   minDuration?: number; // in milliseconds
   maxDuration?: number; // in milliseconds
+  validators?: RangeValidator[]; // run once the range is complete and passes the checks above
 };
 
-export type Preset = {
+// Codes of the built-in checks; custom validators may add their own.
+export type ValidationErrorCode =
+  | 'beforeMin'
+  | 'afterMax'
+  | 'unavailableDate'
+  | 'outsideAllowedHours'
+  | 'inBlackout'
+  | 'endBeforeStart'
+  | 'minDuration'
+  | 'maxDuration'
+  | 'overlapsBlackout'
+  | 'validationFailed';
+
+export type ValidationField = 'start' | 'end' | 'range';
+
+export type ValidationError = {
+  code: ValidationErrorCode | (string & Record<never, never>);
+  field: ValidationField;
+  params: Record<string, string | number | Date>;
+  message?: string; // Shown for custom codes, which have no entry in Messages
+};
+
+// `pending` is true while async validators are still running.
+export type RangeValidation = { errors: ValidationError[]; pending: boolean };
+
+// May return a promise; `signal` aborts when the range changes before it settles.
+export type RangeValidator = (
+  range: { start: Date; end: Date; timezone: string },
+  signal: AbortSignal
+) => ValidationError[] | Promise<ValidationError[]>;
+
+// Either computes fixed instants, or describes a rolling range that stays relative to now.
+export type Preset = { label: string } & (
+  | {
+      // A returned comparison is used as a custom comparison range.
+      getRange: (now: Date, tz: string) => { start: Date; end: Date; comparison?: { start: Date; end: Date } };
+      relative?: undefined;
+    }
+  | { relative: RelativeRange; getRange?: undefined }
+);
+
+// How DateTimeRangePicker writes each end into its hidden form inputs: 'iso' is UTC
+// ("2024-03-01T14:00:00.000Z"), 'offset' the wall time with its offset
+// ("2024-03-01T09:00:00-05:00"), 'epoch' milliseconds since 1970.
+export type FormValueFormat = 'iso' | 'offset' | 'epoch' | ((date: Date, timezone: string) => string);
+
+// A preset saved by the user. `range` is written by toIsoInterval: fixed instants
+// ("2024-03-01T09:00:00-05:00/2024-03-01T17:00:00-05:00[America/New_York]") or a
+// rolling range ("now-7d/now[UTC]"). Either is applied in the picker's current zone.
+export type SavedPreset = {
+  id: string;
   label: string;
-  getRange: (now: Date, tz: string) => { start: Date; end: Date };
-};
\ No newline at end of file
+  range: string;
+};
+
+// Extra information shown on a calendar day.
+export type DayMeta = {
+  count?: number; // Shown as a badge
+  intensity?: number; // 0-1, shades the day like a heat map
+  dots?: string[]; // CSS colours of small markers under the date
+  tooltip?: string;
+  unavailable?: boolean; // Disables the day, like a blackout
+};
+
+// Metadata for one month, keyed by 'yyyy-MM-dd' in the requested zone.
+export type MonthMeta = Record<string, DayMeta>;
+
+export type MonthMetaRequest = {
+  year: number;
+  month: number; // 1-12
+  timezone: string;
+};
+
+export type MonthMetaLoader = (request: MonthMetaRequest, signal: AbortSignal) => Promise<MonthMeta>;
+
+export type TimezoneChangeMode = 'instant' | 'wallClock';
+
+// 'immediate' commits every edit; 'apply' keeps edits in a draft until Apply, and Cancel discards them.
+export type CommitMode = 'immediate' | 'apply';
+
+export type WeekDay = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+export type Granularity = 'day' | 'week' | 'month' | 'quarter' | 'year';
+export type HourCycle = 12 | 24;
+export type TimePrecision = 'minute' | 'second' | 'millisecond';
+
+// How a wall-clock time that a DST change skips ('gap') or repeats ('overlap')
+// becomes an instant: the earlier or later candidate, or none at all.
+export type DstResolution = 'earlier' | 'later' | 'reject';
+export type DstPolicy = { gap: DstResolution; overlap: DstResolution };
+export type WallTimeKind = 'exact' | 'gap' | 'overlap';
+export type TextDirection = 'ltr' | 'rtl';
+
+// 'system' follows prefers-color-scheme.
+export type ThemeMode = 'light' | 'dark' | 'system';
+
+// Parts of DateTimeRangePicker that take extra classes, appended to the built-in ones.
+export type PickerSlot =
+  | 'root'
+  | 'header'
+  | 'presetChip'
+  | 'calendar'
+  | 'dayCell'
+  | 'timeInput'
+  | 'footer'
+  | 'applyButton'
+  | 'cancelButton';
+
+export type PickerClassNames = Partial<Record<PickerSlot, string>>;
+
+export type Messages = {
+  selectedRange: string;
+  rollingRange: string;
+  announceStart: (start: string) => string; // Read out by the live region after the first click
+  announceRange: (start: string, end: string, duration: string) => string;
+  start: string;
+  end: string;
+  timezone: string;
+  searchTimezones: string;
+  pinnedTimezones: string;
+  allTimezones: string;
+  keepWallClock: string;
+  compareTo: string;
+  compareNone: string;
+  comparePreviousPeriod: string;
+  comparePreviousYear: string;
+  compareCustom: string;
+  primaryRange: string;
+  ranges: string;
+  addRange: string;
+  removeRange: string;
+  savedPresets: string;
+  recentRanges: string;
+  savePreset: string;
+  presetName: string;
+  save: string;
+  renamePreset: (label: string) => string;
+  deletePreset: (label: string) => string;
+  comparisonRange: string;
+  typeRange: string;
+  typeRangePlaceholder: string;
+  previousMonth: string;
+  nextMonth: string;
+  previousYear: string;
+  nextYear: string;
+  previousDecade: string;
+  nextDecade: string;
+  chooseMonth: string;
+  chooseYear: string;
+  quarter: (n: number) => string;
+  weekNumber: string;
+  openCalendar: string;
+  year: string;
+  month: string;
+  day: string;
+  hour: string;
+  minute: string;
+  second: string;
+  millisecond: string;
+  meridiem: string;
+  timeSlots: string;
+  ambiguousTime: (offset: string) => string;
+  skippedTime: (time: string) => string;
+  unresolvableTime: string;
+  startTime: string;
+  endTime: string;
+  cancel: string;
+  apply: string;
+  unsavedChanges: string;
+  incompleteRange: string;
+  calendarView: string;
+  timelineView: string;
+  am: string;
+  pm: string;
+  unparseableText: (text: string) => string;
+  unavailableDate: string;
+  beforeMin: string;
+  afterMax: string;
+  endBeforeStart: string;
+  minDuration: (minutes: number) => string;
+  maxDuration: (minutes: number) => string;
+  startOutsideAllowedHours: string;
+  endOutsideAllowedHours: string;
+  endpointInBlackout: string;
+  overlapsBlackout: string;
+  loadingDays: string;
+  validating: string;
+  validationFailed: string;
+  invalidRange: string;
+};
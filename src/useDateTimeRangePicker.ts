@@ -0,0 +1,883 @@
+import React, { useState, useRef, useEffect, useId, useMemo } from 'react';
+import { addMonths, subMonths, addYears, isBefore, getWeek, format, formatDuration, Locale } from 'date-fns';
+import { DateTimeRange, CommitMode, Constraints, Preset, TimezoneChangeMode, WeekDay, HourCycle, TimePrecision, DstPolicy, TextDirection, Messages, ComparisonMode, TimeSpan, RangeValidation, ValidationError, ValidationField, DayMeta, MonthMetaLoader, Granularity } from './types';
+import { getCalendarDays, formatInTimezone, isDateDisabled, parseRangeText, clampToAllowedTime, getAllowedTimeWindows, syncComparison, getPeriodBounds, getZonedDate, isTimeAllowed, toWallTime, fromWallTime, resolveWallTime, getDayBounds, isSameZonedDay, addZonedDays, addZonedMonths, DEFAULT_DST_POLICY } from './utils';
+import { changeRangeTimezone, formatUtcOffset } from './timezones';
+import { resolveRelativeRange } from './relative';
+import { defaultMessages, getErrorMessage, getHourCycle, getTextDirection, getWeekDayLabels } from './i18n';
+import { useRangeValidation } from './useRangeValidation';
+import { useMonthMeta } from './useMonthMeta';
+import { useDraftRange } from './useDraftRange';
+
+export interface UseDateTimeRangePickerOptions {
+  value?: DateTimeRange | undefined; // Controlled; without it the hook keeps the range, starting from defaultValue
+  defaultValue?: DateTimeRange | undefined;
+  onChange?: ((value: DateTimeRange) => void) | undefined; // Called with each committed range
+  commitMode?: CommitMode | undefined; // 'apply' keeps edits in a draft until Apply; defaults to 'immediate'
+  onDirtyChange?: ((dirty: boolean) => void) | undefined; // Whether the draft differs from the committed range
+  onApply?: ((value: DateTimeRange) => void) | undefined;
+  onCancel?: (() => void) | undefined;
+  constraints?: Constraints | undefined;
+  timezoneChangeMode?: TimezoneChangeMode | undefined;
+  onTimezoneChange?: ((timezone: string, mode: TimezoneChangeMode) => void) | undefined; // Called before onChange, with how the range moved
+  validation?: RangeValidation | undefined; // The committed range's results, from a caller that already validates it
+  months?: number | undefined;
+  locale?: Locale | undefined;
+  weekStartsOn?: WeekDay | undefined; // Defaults to the locale's first day, or Monday without a locale
+  dir?: TextDirection | undefined; // Defaults to the locale's script direction
+  hourCycle?: HourCycle | undefined; // Defaults to the locale's clock, or 24h without a locale
+  messages?: Partial<Messages> | undefined;
+  otherRanges?: TimeSpan[] | undefined; // Further ranges to show, e.g. the inactive ones in multi-range mode
+  onOtherRangeSelect?: ((index: number) => void) | undefined; // Called instead of selecting when a click lands in one
+  now?: (() => Date) | undefined; // Clock for presets, free text, rolling ranges and the initial month
+  getDayMeta?: ((date: Date, timezone: string) => DayMeta | undefined) | undefined; // Merged over loaded metadata
+  loadMonthMeta?: MonthMetaLoader | undefined; // Called once per visible month and zone
+  granularity?: Granularity | undefined; // Selections snap to whole periods of this size
+  timePrecision?: TimePrecision | undefined; // Adds second, or second and millisecond, fields
+  minuteStep?: number | undefined; // Arrow keys move the minute by this much; typed minutes snap to it
+  dstPolicy?: DstPolicy | undefined; // For times a DST change skips or repeats; defaults to later / earlier
+}
+
+export type TimeEndpoint = 'start' | 'end';
+export type TimeField = 'hour' | 'minute' | 'second' | 'millisecond';
+
+// The wall-clock time of one end of the range, in the range's timezone.
+export interface TimeParts {
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+export interface TimeSlot {
+  minutes: number; // Since midnight
+  label: string;
+  selected: boolean;
+  active: boolean; // The slot in the tab order: the one at or just before the current time
+  disabled: boolean; // No date on that end yet, or outside the allowed hours
+}
+export type SelectionTarget = 'primary' | 'comparison';
+
+export interface DayState {
+  date: Date;
+  disabled: boolean;
+  inRange: boolean;
+  inPreview: boolean; // Part of the range the hovered or focused day would create
+  isStart: boolean;
+  isEnd: boolean;
+  inComparison: boolean;
+  isComparisonStart: boolean;
+  isComparisonEnd: boolean;
+  otherRangeIndex: number | null; // Which of otherRanges covers this day, if any
+  meta: DayMeta | undefined;
+}
+
+export interface CalendarMonth {
+  month: Date;
+  loading: boolean; // Metadata for this month is still being loaded
+  leadingBlanks: number; // Empty cells before the 1st, counted from weekStartsOn
+  days: DayState[];
+  weeks: (DayState | null)[][]; // The grid's rows, seven cells each; null before the 1st and after the last day
+  weekNumbers: number[]; // One per row of the grid
+}
+
+// The grid being shown: days of a month, months or quarters of a year, or years of a decade.
+export type CalendarView = 'day' | 'month' | 'quarter' | 'year';
+
+export interface PeriodState {
+  date: Date; // Noon on the period's first day
+  label: string;
+  disabled: boolean;
+  inRange: boolean;
+  inPreview: boolean;
+  isStart: boolean;
+  isEnd: boolean;
+}
+
+const PARENT_VIEW: Record<CalendarView, CalendarView | null> = { day: 'month', month: 'year', quarter: 'year', year: null };
+
+const TIME_FIELDS: Record<TimePrecision, TimeField[]> = {
+  minute: ['hour', 'minute'],
+  second: ['hour', 'minute', 'second'],
+  millisecond: ['hour', 'minute', 'second', 'millisecond'],
+};
+
+const TIME_FIELD_MAX: Record<TimeField, number> = { hour: 23, minute: 59, second: 59, millisecond: 999 };
+
+// A copy of `record` without `key`.
+const omitKey = <T extends object>(record: T, key: keyof T): T => {
+  const rest = { ...record };
+  delete rest[key];
+  return rest;
+};
+
+/**
+ * Headless state and behaviour of the date/time range picker: selection,
+ * time editing, presets, free-text entry, timezone changes, keyboard
+ * navigation and validation. Returns state plus prop getters to spread onto
+ * your own elements; DateTimeRangePicker is built on top of it.
+ */
+export const useDateTimeRangePicker = ({
+  value: valueProp,
+  defaultValue,
+  onChange,
+  commitMode = 'immediate',
+  onDirtyChange,
+  onApply,
+  onCancel,
+  constraints,
+  timezoneChangeMode = 'instant',
+  onTimezoneChange,
+  validation,
+  months = 1,
+  locale,
+  weekStartsOn,
+  dir,
+  hourCycle,
+  messages: customMessages,
+  otherRanges = [],
+  onOtherRangeSelect,
+  now = () => new Date(),
+  getDayMeta,
+  loadMonthMeta,
+  granularity = 'day',
+  timePrecision = 'minute',
+  minuteStep = 1,
+  dstPolicy = DEFAULT_DST_POLICY,
+}: UseDateTimeRangePickerOptions) => {
+  // Weeks are picked from the day grid; every other granularity has a grid of its own.
+  const baseView: CalendarView = granularity === 'week' ? 'day' : granularity;
+  const [view, setView] = useState<CalendarView>(baseView);
+  const [currentMonth, setCurrentMonth] = useState(() => now());
+  const [focusedDate, setFocusedDate] = useState<Date | null>(null);
+  const [hoveredDate, setHoveredDate] = useState<Date | null>(null);
+  // Text typed into a time field that isn't a valid value (yet), kept until the field loses focus.
+  const [timeDrafts, setTimeDrafts] = useState<Partial<Record<`${TimeEndpoint}-${TimeField}`, string>>>({});
+  // Why an end's time isn't what was asked for; shown while that end is still at `at`.
+  const [timeNotes, setTimeNotes] = useState<Partial<Record<TimeEndpoint, { at: number; message: string }>>>({});
+  const [rangeText, setRangeText] = useState('');
+  const [rangeTextError, setRangeTextError] = useState<string | null>(null);
+  const [keepWallClock, setKeepWallClock] = useState(timezoneChangeMode === 'wallClock');
+  const [selectionTarget, setSelectionTarget] = useState<SelectionTarget>('primary');
+  const calendarRef = useRef<HTMLDivElement>(null);
+  const idPrefix = useId();
+  const editing = useDraftRange({ value: valueProp, defaultValue, onChange, commitMode, onDirtyChange });
+  const weekStart: WeekDay = weekStartsOn ?? locale?.options?.weekStartsOn ?? 1;
+
+  // A rolling range is resolved at now() when it is received or its expressions or zone change,
+  // rather than shown at the instants it was stored with.
+  const nowRef = useRef(now);
+  nowRef.current = now;
+  const received = editing.committed;
+  const { start: rollingStart, end: rollingEnd } = received.relative ?? {};
+  const rolling = useMemo(() => {
+    if (rollingStart === undefined || rollingEnd === undefined) return null;
+    const relative = { start: rollingStart, end: rollingEnd };
+    return resolveRelativeRange({ start: null, end: null, timezone: received.timezone, relative }, nowRef.current(), weekStart);
+  }, [rollingStart, rollingEnd, received.timezone, weekStart]);
+  const committed = rolling?.start && rolling.end ? syncComparison({ ...received, start: rolling.start, end: rolling.end }) : received;
+  // `value` is the range being edited: the draft in 'apply' mode, else the committed range.
+  const value = editing.dirty ? editing.value : committed;
+
+  const tz = value.timezone;
+  const messages: Messages = { ...defaultMessages, ...customMessages };
+  // Each range is validated once: the committed one here unless `validation` is given, and a draft only while it differs.
+  const committedOwn = useRangeValidation(committed, validation ? undefined : constraints);
+  const draftOwn = useRangeValidation(value, editing.dirty ? constraints : undefined);
+  const committedValidation = validation ?? committedOwn;
+  const { errors, pending: validating } = editing.dirty ? draftOwn : committedValidation;
+  const canApply = errors.length === 0 && !validating && !!value.start && !!value.end;
+  const hasFieldError = (field: ValidationField) => errors.some(error => error.field === field);
+  const weekNumberOptions = { weekStartsOn: weekStart, firstWeekContainsDate: locale?.options?.firstWeekContainsDate ?? 4 };
+  const direction = dir ?? getTextDirection(locale);
+  const clock = hourCycle ?? (locale ? getHourCycle(locale) : 24);
+  const visibleMonths = Array.from({ length: Math.max(1, months) }, (_, i) => addMonths(currentMonth, i));
+  const toMetaRequest = (month: Date) => ({ year: month.getFullYear(), month: month.getMonth() + 1, timezone: tz });
+  // Local midnight on the day `date` falls on in the range's zone, for date-fns helpers and the month pointer.
+  const toLocalDay = (date: Date) => {
+    const wall = new Date(toWallTime(date, tz));
+    return new Date(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate());
+  };
+  const monthMeta = useMonthMeta(view === 'day' ? visibleMonths.map(toMetaRequest) : [], loadMonthMeta);
+
+  const getMeta = (date: Date): DayMeta | undefined => {
+    const loaded = monthMeta.getMonthMeta(toMetaRequest(toLocalDay(date)))?.[formatInTimezone(date, tz, 'yyyy-MM-dd')];
+    const own = getDayMeta?.(date, tz);
+    return loaded || own ? { ...loaded, ...own } : undefined;
+  };
+
+  const isDayDisabled = (date: Date) => isDateDisabled(date, constraints, tz) || !!getMeta(date)?.unavailable;
+
+  // Coarser periods are only checked against min/max; blacked-out days inside them are left to validation.
+  const isPeriodDisabled = (period: TimeSpan) =>
+    (!!constraints?.min && period.end < constraints.min) || (!!constraints?.max && period.start > constraints.max);
+
+  const snap = (date: Date): TimeSpan =>
+    granularity === 'day' ? { start: date, end: date } : getPeriodBounds(date, granularity, tz, weekStart);
+
+  // Derived comparisons follow the primary range; custom ones are left alone.
+  const emitChange = (next: DateTimeRange) => editing.change(syncComparison(next));
+
+  const editingComparison = value.comparison?.mode === 'custom' && selectionTarget === 'comparison';
+  const activeRange = editingComparison && value.comparison ? value.comparison : value;
+
+  const handleComparisonModeChange = (mode: ComparisonMode | null) => {
+    if (!mode) {
+      setSelectionTarget('primary');
+      emitChange({ ...value, comparison: undefined });
+      return;
+    }
+    if (mode === 'custom') {
+      // Start from whatever was shown, so switching to custom is a small adjustment.
+      setSelectionTarget('comparison');
+      emitChange({ ...value, comparison: { mode, start: value.comparison?.start ?? null, end: value.comparison?.end ?? null } });
+      return;
+    }
+    setSelectionTarget('primary');
+    emitChange({ ...value, comparison: { mode, start: null, end: null } });
+  };
+
+  // Days are in a range when any part of them is, not just the noon marker.
+  const overlapsDay = (date: Date, range: { start: Date | null; end: Date | null } | null | undefined) => {
+    if (!range?.start || !range.end) return false;
+    const day = getDayBounds(date, tz);
+    return day.start <= range.end && day.end > range.start;
+  };
+
+  const findOtherRange = (date: Date) => {
+    const index = otherRanges.findIndex(range => overlapsDay(date, range));
+    return index >= 0 ? index : null;
+  };
+
+  const handleDateSelect = (date: Date) => {
+    if (baseView === 'day' ? isDayDisabled(date) : isPeriodDisabled(snap(date))) return;
+    const otherIndex = onOtherRangeSelect && !(activeRange.start && !activeRange.end) ? findOtherRange(date) : null;
+    if (otherIndex !== null) {
+      onOtherRangeSelect?.(otherIndex);
+      return;
+    }
+    let newStart: Date | null;
+    let newEnd: Date | null;
+
+    if (!activeRange.start || activeRange.end) {
+      newStart = snap(date).start;
+      newEnd = null;
+    } else {
+      // The second click completes the range in either direction, covering both periods whole.
+      const first = snap(activeRange.start);
+      const second = snap(date);
+      [newStart, newEnd] = isBefore(second.start, first.start) ? [second.start, first.end] : [first.start, second.end];
+    }
+
+    if (editingComparison && value.comparison) {
+      emitChange({ ...value, comparison: { ...value.comparison, start: newStart, end: newEnd } });
+      return;
+    }
+    emitChange({ ...value, start: newStart, end: newEnd, relative: undefined });
+  };
+
+  const getTimeParts = (date: Date | null): TimeParts | null => {
+    if (!date) return null;
+    const wall = new Date(toWallTime(date, tz));
+    return { hour: wall.getUTCHours(), minute: wall.getUTCMinutes(), second: wall.getUTCSeconds(), millisecond: wall.getUTCMilliseconds() };
+  };
+  // Derived from `value`, so times from props, presets and free text show up as they are.
+  const times = { start: getTimeParts(value.start), end: getTimeParts(value.end) };
+
+  // The wall time (see toWallTime) of `date`'s day at the given time.
+  const getWallTimeAt = (date: Date, parts: Partial<TimeParts>) => {
+    const wall = new Date(toWallTime(date, tz));
+    wall.setUTCHours(
+      parts.hour ?? wall.getUTCHours(),
+      parts.minute ?? wall.getUTCMinutes(),
+      parts.second ?? wall.getUTCSeconds(),
+      parts.millisecond ?? wall.getUTCMilliseconds()
+    );
+    return wall.getTime();
+  };
+
+  const timeFormat = `${clock === 12 ? 'h:mm' : 'HH:mm'}${timePrecision === 'minute' ? '' : timePrecision === 'second' ? ':ss' : ':ss.SSS'}${clock === 12 ? ' a' : ''}`;
+
+  const handleTimePartsChange = (type: TimeEndpoint, parts: Partial<TimeParts>) => {
+    const current = value[type];
+    if (!current) return;
+    const wall = getWallTimeAt(current, parts);
+    const next = fromWallTime(wall, tz, dstPolicy);
+    if (!next) {
+      setTimeNotes(notes => ({ ...notes, [type]: { at: current.getTime(), message: messages.unresolvableTime } }));
+      return;
+    }
+    if (resolveWallTime(wall, tz).kind === 'gap') {
+      setTimeNotes(notes => ({ ...notes, [type]: { at: next.getTime(), message: messages.skippedTime(formatInTimezone(next, tz, timeFormat, locale)) } }));
+    }
+    emitChange({ ...value, [type]: next, relative: undefined });
+  };
+  // Why the last edit landed elsewhere, or that the time happens twice that day.
+  const getTimeHint = (type: TimeEndpoint): string | null => {
+    const date = value[type];
+    if (!date) return null;
+    const note = timeNotes[type];
+    if (note && note.at === date.getTime()) return note.message;
+    return resolveWallTime(toWallTime(date, tz), tz).kind === 'overlap' ? messages.ambiguousTime(formatUtcOffset(tz, date)) : null;
+  };
+  const timeHints = { start: getTimeHint('start'), end: getTimeHint('end') };
+
+  const handleTimeChange = (type: TimeEndpoint, field: TimeField, val: number) => handleTimePartsChange(type, { [field]: val });
+
+  // Both ends at once, e.g. from a drag on the timeline.
+  const handleRangeChange = (start: Date, end: Date) => emitChange({ ...value, start, end, relative: undefined });
+
+  // Minutes typed by hand move to the nearest step, staying on the same day.
+  const snapToMinuteStep = (date: Date) => {
+    if (minuteStep <= 1) return date;
+    const { hour, minute } = getTimeParts(date) ?? { hour: 0, minute: 0 };
+    const snapped = Math.round((hour * 60 + minute) / minuteStep) * minuteStep;
+    const minutes = snapped < 24 * 60 ? snapped : snapped - minuteStep;
+    return fromWallTime(getWallTimeAt(date, { hour: Math.floor(minutes / 60), minute: minutes % 60 }), tz, dstPolicy) ?? date;
+  };
+
+  // Clamp on blur rather than per keystroke so typing "17" doesn't get snapped after the "1".
+  const handleTimeBlur = (type: TimeEndpoint, field?: TimeField) => {
+    const typed = field !== undefined && timeDrafts[`${type}-${field}`] !== undefined;
+    if (field) setTimeDrafts(drafts => omitKey(drafts, `${type}-${field}`));
+    const current = value[type];
+    if (!current) return;
+    const clamped = clampToAllowedTime(typed && field === 'minute' ? snapToMinuteStep(current) : current, constraints, tz);
+    if (clamped.getTime() === current.getTime()) return;
+    emitChange({ ...value, [type]: clamped, relative: undefined });
+  };
+
+  // Strict parsing: anything that isn't a whole number in range is kept as a draft, never read as 0.
+  const parseTimeField = (type: TimeEndpoint, field: TimeField, text: string): number | null => {
+    if (!new RegExp(`^\\d{1,${field === 'millisecond' ? 3 : 2}}$`).test(text)) return null;
+    const number = Number(text);
+    if (field === 'hour' && clock === 12) {
+      if (number < 1 || number > 12) return null;
+      return (number % 12) + ((times[type]?.hour ?? 0) >= 12 ? 12 : 0);
+    }
+    return number <= TIME_FIELD_MAX[field] ? number : null;
+  };
+
+  const formatTimeField = (parts: TimeParts, field: TimeField) => {
+    if (field === 'hour' && clock === 12) return String(((parts.hour + 11) % 12) + 1);
+    return String(parts[field]).padStart(field === 'millisecond' ? 3 : 2, '0');
+  };
+
+  const getTimeSlots = (type: TimeEndpoint, interval = 30): TimeSlot[] => {
+    const date = value[type];
+    const parts = times[type];
+    // Without a date the labels still need a day to be formatted on.
+    const day = date ?? now();
+    const step = Math.max(1, interval);
+    const activeMinutes = parts ? Math.floor((parts.hour * 60 + parts.minute) / step) * step : 0;
+    return Array.from({ length: Math.ceil((24 * 60) / step) }, (_, i) => {
+      const minutes = i * step;
+      const { kind, later } = resolveWallTime(getWallTimeAt(day, { hour: Math.floor(minutes / 60), minute: minutes % 60, second: 0, millisecond: 0 }), tz);
+      return {
+        minutes,
+        label: format(new Date(2000, 0, 1, Math.floor(minutes / 60), minutes % 60), clock === 12 ? 'h:mm a' : 'HH:mm', locale ? { locale } : undefined),
+        selected: !!parts && parts.hour * 60 + parts.minute === minutes && parts.second === 0 && parts.millisecond === 0,
+        active: minutes === activeMinutes,
+        // Times the clocks skip that day can't be picked.
+        disabled: !date || kind === 'gap' || !isTimeAllowed(later, constraints, tz),
+      };
+    });
+  };
+
+  // Limits for the hour spinners, taken from the allowed windows of the selected day.
+  const getHourBounds = (date: Date | null) => {
+    if (!date || !constraints?.allowedTimes) return { min: 0, max: 23 };
+    const windows = getAllowedTimeWindows(date, constraints.allowedTimes, tz);
+    if (windows.length === 0) return { min: 0, max: 23 };
+    return {
+      min: Math.floor(Math.min(...windows.map(w => w.start)) / 60),
+      max: Math.floor(Math.max(...windows.map(w => w.end)) / 60),
+    };
+  };
+
+  const handleTimezoneChange = (timezone: string) => {
+    const mode = keepWallClock ? 'wallClock' : 'instant';
+    onTimezoneChange?.(timezone, mode);
+    // A rolling range is re-resolved in the new zone, since snaps like "start of today" depend on it.
+    const newValue = resolveRelativeRange(changeRangeTimezone(value, timezone, mode, dstPolicy), now(), weekStart);
+    emitChange(newValue);
+  };
+
+  const handlePresetSelect = (preset: Preset) => {
+    if (preset.relative) {
+      emitChange(resolveRelativeRange({ ...value, relative: preset.relative }, now(), weekStart));
+    } else {
+      const { comparison, ...range } = preset.getRange(now(), tz);
+      emitChange({ ...value, ...range, relative: undefined, ...(comparison && { comparison: { mode: 'custom' as const, ...comparison } }) });
+    }
+  };
+
+  const handleRangeTextSubmit = () => {
+    if (!rangeText.trim()) {
+      setRangeTextError(null);
+      return;
+    }
+    const range = parseRangeText(rangeText, tz, now());
+    if (!range) {
+      setRangeTextError(messages.unparseableText(rangeText.trim()));
+      return;
+    }
+    if (isDateDisabled(range.start, constraints, tz) || isDateDisabled(range.end, constraints, tz)) {
+      setRangeTextError(messages.unavailableDate);
+      return;
+    }
+    setRangeTextError(null);
+    setCurrentMonth(range.start);
+    emitChange({ ...value, relative: undefined, ...range });
+  };
+
+  // The WAI-ARIA APG date grid keys. Disabled days can't take focus, so the keys pass over them.
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!focusedDate) return;
+    let newFocused = focusedDate;
+    // Which way to keep going from a disabled day: on with the move, or back into the week for Home/End.
+    let skip: 1 | -1 = 1;
+    // Left and right follow the reading direction, so in RTL "left" moves forward in time.
+    const forward = direction === 'rtl' ? -1 : 1;
+    const weekOffset = (new Date(toWallTime(focusedDate, tz)).getUTCDay() - weekStart + 7) % 7;
+    switch (e.key) {
+      case 'ArrowLeft': newFocused = addZonedDays(focusedDate, -forward, tz); break;
+      case 'ArrowRight': newFocused = addZonedDays(focusedDate, forward, tz); break;
+      case 'ArrowUp': newFocused = addZonedDays(focusedDate, -7, tz); break;
+      case 'ArrowDown': newFocused = addZonedDays(focusedDate, 7, tz); break;
+      case 'Home': newFocused = addZonedDays(focusedDate, -weekOffset, tz); skip = 1; break;
+      case 'End': newFocused = addZonedDays(focusedDate, 6 - weekOffset, tz); skip = -1; break;
+      case 'PageUp': newFocused = addZonedMonths(focusedDate, e.shiftKey ? -12 : -1, tz); break;
+      case 'PageDown': newFocused = addZonedMonths(focusedDate, e.shiftKey ? 12 : 1, tz); break;
+      case 'Enter':
+      case ' ':
+        e.preventDefault();
+        handleDateSelect(focusedDate);
+        return;
+      default: return;
+    }
+    e.preventDefault();
+    if (e.key !== 'Home' && e.key !== 'End') skip = newFocused < focusedDate ? -1 : 1;
+    for (let days = 0; days < 366 && isDayDisabled(newFocused); days++) newFocused = addZonedDays(newFocused, skip, tz);
+    if (isDayDisabled(newFocused)) return;
+    // The visible months follow focus, so the focused day is always rendered.
+    const monthIndex = (date: Date) => date.getFullYear() * 12 + date.getMonth();
+    const offset = monthIndex(toLocalDay(newFocused)) - monthIndex(currentMonth);
+    if (offset < 0) setCurrentMonth(addMonths(currentMonth, offset));
+    if (offset >= visibleMonths.length) setCurrentMonth(addMonths(currentMonth, offset - visibleMonths.length + 1));
+    setFocusedDate(newFocused);
+    setHoveredDate(newFocused);
+  };
+
+  useEffect(() => {
+    if (focusedDate && calendarRef.current) {
+      const cell = calendarRef.current.querySelector(`[data-date="${focusedDate.toISOString()}"]`) as HTMLElement;
+      cell?.focus();
+    }
+  }, [focusedDate]);
+
+
+  // Between the first and second click, show the range the hovered or focused day would create.
+  const pendingStart = activeRange.start && !activeRange.end ? activeRange.start : null;
+  const previewRange = pendingStart && hoveredDate
+    ? (isBefore(hoveredDate, pendingStart)
+      ? { start: snap(hoveredDate).start, end: snap(pendingStart).end }
+      : { start: snap(pendingStart).start, end: snap(hoveredDate).end })
+    : null;
+
+  const getDayState = (date: Date): DayState => {
+    const inRange = overlapsDay(date, value);
+    const meta = getMeta(date);
+    return {
+      date,
+      disabled: isDateDisabled(date, constraints, tz) || !!meta?.unavailable,
+      inRange,
+      inPreview: !inRange && overlapsDay(date, previewRange),
+      isStart: !!value.start && isSameZonedDay(date, value.start, tz),
+      isEnd: !!value.end && isSameZonedDay(date, value.end, tz),
+      inComparison: overlapsDay(date, value.comparison),
+      isComparisonStart: !!value.comparison?.start && isSameZonedDay(date, value.comparison.start, tz),
+      isComparisonEnd: !!value.comparison?.end && isSameZonedDay(date, value.comparison.end, tz),
+      otherRangeIndex: findOtherRange(date),
+      meta,
+    };
+  };
+
+  const calendarMonths: CalendarMonth[] = visibleMonths.map(month => {
+    const days = getCalendarDays(month.getFullYear(), month.getMonth(), tz);
+    const firstWeekday = days[0] ? toLocalDay(days[0]).getDay() : weekStart;
+    const leadingBlanks = (firstWeekday - weekStart + 7) % 7;
+    const rows = Math.ceil((leadingBlanks + days.length) / 7);
+    const dayStates = days.map(getDayState);
+    return {
+      month,
+      loading: monthMeta.isLoading(toMetaRequest(month)),
+      leadingBlanks,
+      days: dayStates,
+      weeks: Array.from({ length: rows }, (_, row) =>
+        Array.from({ length: 7 }, (_, column) => dayStates[row * 7 + column - leadingBlanks] ?? null)),
+      weekNumbers: Array.from({ length: rows }, (_, row) => {
+        const day = days[Math.max(0, row * 7 - leadingBlanks)];
+        return day ? getWeek(toLocalDay(day), weekNumberOptions) : 0;
+      }),
+    };
+  });
+
+  // Grids coarser than days show one year (months, quarters) or one decade (years).
+  const viewYear = currentMonth.getFullYear();
+  const decadeStart = Math.floor(viewYear / 10) * 10;
+  const periods: PeriodState[] = view === 'day' ? [] : Array.from({ length: view === 'month' ? 12 : view === 'quarter' ? 4 : 10 }, (_, i) => {
+    const date = view === 'year' ? getZonedDate(decadeStart + i, 0, 1, tz) : getZonedDate(viewYear, view === 'month' ? i : i * 3, 1, tz);
+    const period = getPeriodBounds(date, view, tz, weekStart);
+    const overlaps = (range: { start: Date; end: Date } | null) => !!range && period.start <= range.end && period.end >= range.start;
+    const contains = (instant: Date | null) => !!instant && instant >= period.start && instant <= period.end;
+    const inRange = overlaps(value.start && value.end ? { start: value.start, end: value.end } : null);
+    return {
+      date,
+      label: view === 'quarter' ? messages.quarter(i + 1) : formatInTimezone(date, tz, view === 'month' ? 'LLL' : 'yyyy', locale),
+      disabled: isPeriodDisabled(period),
+      inRange,
+      inPreview: !inRange && overlaps(previewRange),
+      isStart: contains(value.start),
+      isEnd: contains(value.end),
+    };
+  });
+
+  const parentView = PARENT_VIEW[view];
+  const viewTitle = view === 'day'
+    ? formatInTimezone(currentMonth, tz, 'LLLL yyyy', locale)
+    : view === 'year' ? `${decadeStart} – ${decadeStart + 9}` : String(viewYear);
+  const drillingDown = view !== baseView;
+  const handlePeriodSelect = (date: Date) => {
+    if (!drillingDown) {
+      handleDateSelect(date);
+      return;
+    }
+    const day = toLocalDay(date);
+    setCurrentMonth(new Date(day.getFullYear(), day.getMonth(), 1));
+    setView(view === 'year' && baseView !== 'day' ? baseView : view === 'year' ? 'month' : 'day');
+  };
+
+  const goBy = (direction: 1 | -1) =>
+    setCurrentMonth(view === 'day' ? addMonths(currentMonth, direction) : addYears(currentMonth, direction * (view === 'year' ? 10 : 1)));
+
+  const hourBounds = { start: getHourBounds(value.start), end: getHourBounds(value.end) };
+
+  // Roving tabindex: one enabled day is in the tab order, the focused one if it is shown, else the start, today or the first one.
+  const visibleDays = calendarMonths.flatMap(month => month.days);
+  const today = now();
+  const tabStop = [focusedDate, value.start, today]
+    .map(date => date && visibleDays.find(day => isSameZonedDay(day.date, date, tz)))
+    .find(day => day && !day.disabled) ?? visibleDays.find(day => !day.disabled);
+
+  // Read out politely whenever the selection or its errors change.
+  const announceFormat = granularity === 'day' ? 'PPPp' : 'PPP';
+  const announceDate = (date: Date) => formatInTimezone(date, tz, announceFormat, locale);
+  const getDuration = (start: Date, end: Date) => {
+    const minutes = Math.max(0, Math.round((end.getTime() - start.getTime()) / 60000));
+    const duration = { days: Math.floor(minutes / 1440), hours: Math.floor((minutes % 1440) / 60), minutes: minutes % 60 };
+    return formatDuration(duration, locale ? { locale } : undefined);
+  };
+  const announcement = [
+    value.start && value.end
+      ? messages.announceRange(announceDate(value.start), announceDate(value.end), getDuration(value.start, value.end))
+      : value.start ? messages.announceStart(announceDate(value.start)) : '',
+    ...errors.map(error => getErrorMessage(error, messages)),
+  ].filter(Boolean).join('. ');
+
+  // Returns whether the range was applied: not while it is incomplete, invalid or still validating.
+  const handleApply = () => {
+    if (!canApply) return false;
+    // An untouched rolling range applies the instants it is shown and validated at.
+    onApply?.(editing.commit(committed));
+    return true;
+  };
+
+  const handleCancel = () => {
+    editing.reset();
+    onCancel?.();
+  };
+
+  return {
+    value,
+    committedValue: committed,
+    committedErrors: committedValidation.errors, // What a form submitting committedValue should check, which the draft's errors may not match
+    committedValidating: committedValidation.pending,
+    dirty: editing.dirty,
+    timezone: tz,
+    errors,
+    error: errors[0] ? getErrorMessage(errors[0], messages) : null, // The first error, as text
+    validating,
+    formatError: (error: ValidationError) => getErrorMessage(error, messages),
+    weekDays: getWeekDayLabels(locale, weekStart),
+    announcement,
+    locale,
+    messages,
+    dir: direction,
+    hourCycle: clock,
+    formatDate: (date: Date, formatStr: string) => formatInTimezone(date, tz, formatStr, locale),
+    calendarMonths,
+    startTime: times.start,
+    endTime: times.end,
+    timePrecision,
+    timeFields: TIME_FIELDS[timePrecision],
+    timeHints,
+    getTimeSlots,
+    rangeText,
+    rangeTextError,
+    rangeTextErrorId: `${idPrefix}-range-text-error`,
+    keepWallClock,
+    setKeepWallClock,
+    setTimezone: handleTimezoneChange,
+    comparisonMode: value.comparison?.mode ?? null,
+    setComparisonMode: handleComparisonModeChange,
+    selectionTarget: editingComparison ? 'comparison' as const : 'primary' as const,
+    setSelectionTarget,
+    selectDate: handleDateSelect,
+    selectPreset: handlePresetSelect,
+    setTime: handleTimeChange,
+    setRange: handleRangeChange,
+    apply: handleApply,
+    reset: editing.reset,
+    restore: editing.restore, // Back to defaultValue, or the value on mount
+    /** Moves focus to the day in the tab order, or the first enabled button of the calendar. */
+    focusCalendar: () => {
+      const calendar = calendarRef.current;
+      (calendar?.querySelector<HTMLElement>('[tabindex="0"]') ?? calendar?.querySelector<HTMLElement>('button:not([disabled])'))?.focus();
+    },
+    setTimeParts: handleTimePartsChange,
+    submitRangeText: handleRangeTextSubmit,
+    goToPreviousMonth: () => setCurrentMonth(subMonths(currentMonth, 1)),
+    goToNextMonth: () => setCurrentMonth(addMonths(currentMonth, 1)),
+    granularity,
+    view,
+    periods,
+    viewTitle,
+    canZoomOut: parentView !== null,
+    zoomOut: () => parentView && setView(parentView),
+    selectPeriod: handlePeriodSelect,
+    /** Month, quarter and year cells pick a range at the base granularity, or drill down to it. */
+    getPeriodProps: (period: PeriodState) => ({
+      type: 'button' as const,
+      'data-date': period.date.toISOString(),
+      'data-preview': period.inPreview || undefined,
+      'aria-pressed': drillingDown ? undefined : period.isStart || period.isEnd,
+      disabled: period.disabled,
+      onClick: () => handlePeriodSelect(period.date),
+      onFocus: () => !drillingDown && setHoveredDate(period.date),
+      onMouseEnter: () => !drillingDown && setHoveredDate(period.date),
+    }),
+    /** The view title; zooms out to months or years when there is a coarser view. */
+    getViewTitleProps: () => ({
+      type: 'button' as const,
+      disabled: parentView === null,
+      'aria-label': parentView === null ? undefined : `${parentView === 'month' ? messages.chooseMonth : messages.chooseYear}: ${viewTitle}`,
+      onClick: () => parentView && setView(parentView),
+    }),
+    getPreviousButtonProps: () => ({
+      type: 'button' as const,
+      'aria-label': view === 'day' ? messages.previousMonth : view === 'year' ? messages.previousDecade : messages.previousYear,
+      onClick: () => goBy(-1),
+    }),
+    getNextButtonProps: () => ({
+      type: 'button' as const,
+      'aria-label': view === 'day' ? messages.nextMonth : view === 'year' ? messages.nextDecade : messages.nextYear,
+      onClick: () => goBy(1),
+    }),
+    /** Moves back a month, a year or a decade, depending on the view. */
+    goToPrevious: () => goBy(-1),
+    goToNext: () => goBy(1),
+    canApply,
+
+    /** Wraps every visible month; owns focus movement and clears the hover preview. */
+    getCalendarProps: () => ({
+      ref: calendarRef,
+      onMouseLeave: () => setHoveredDate(null),
+    }),
+    /** One per month; wrap each week, including the weekday names, in getRowProps. */
+    getGridProps: (month?: CalendarMonth) => ({
+      role: 'grid' as const,
+      'aria-multiselectable': true,
+      'aria-label': month ? format(month.month, 'LLLL yyyy', locale ? { locale } : undefined) : undefined, // Same local month as its days
+      onKeyDown: handleKeyDown,
+    }),
+    getRowProps: () => ({ role: 'row' as const }),
+    getColumnHeaderProps: (index: number) => ({
+      role: 'columnheader' as const,
+      'aria-label': getWeekDayLabels(locale, weekStart, 'EEEE')[index],
+    }),
+    /** Wraps each cell of `weeks`; pass null for the blanks around the month. */
+    getDayCellProps: (day: DayState | null) => ({
+      role: 'gridcell' as const,
+      'aria-selected': day ? day.inRange || day.isStart || day.isEnd : undefined,
+    }),
+    getDayProps: (day: DayState) => ({
+      type: 'button' as const,
+      'data-date': day.date.toISOString(),
+      'data-preview': day.inPreview || undefined,
+      // For styling by state, e.g. from classNames.dayCell
+      'data-in-range': day.inRange || undefined,
+      'data-start': day.isStart || undefined,
+      'data-end': day.isEnd || undefined,
+      'data-disabled': day.disabled || undefined,
+      'aria-label': formatInTimezone(day.date, tz, 'PPPP', locale),
+      disabled: day.disabled,
+      'aria-current': isSameZonedDay(day.date, today, tz) ? 'date' as const : undefined,
+      tabIndex: day === tabStop ? 0 : -1,
+      title: day.meta?.tooltip,
+      onClick: () => handleDateSelect(day.date),
+      onFocus: () => {
+        setFocusedDate(day.date);
+        setHoveredDate(day.date);
+      },
+      onMouseEnter: () => setHoveredDate(day.date),
+    }),
+    /** Wraps the fields of one end; they are labelled within it. */
+    getTimeGroupProps: (type: TimeEndpoint) => ({
+      role: 'group' as const,
+      'aria-label': type === 'start' ? messages.startTime : messages.endTime,
+    }),
+    /** A text spinbutton; ArrowUp/ArrowDown step it, and on a 12h clock "a"/"p" set the half of the day. */
+    getTimeInputProps: (type: TimeEndpoint, field: TimeField) => {
+      const parts = times[type];
+      const draft = timeDrafts[`${type}-${field}`];
+      const invalid = hasFieldError(type) || (draft !== undefined && parseTimeField(type, field, draft) === null);
+      const bounds = field === 'hour' ? (clock === 12 ? { min: 1, max: 12 } : hourBounds[type]) : { min: 0, max: TIME_FIELD_MAX[field] };
+      const step = field === 'minute' ? minuteStep : 1;
+      return {
+        type: 'text' as const,
+        inputMode: 'numeric' as const,
+        role: 'spinbutton' as const,
+        'aria-label': `${type === 'start' ? messages.startTime : messages.endTime} ${messages[field]}`,
+        'aria-valuemin': bounds.min,
+        'aria-valuemax': bounds.max,
+        'aria-valuenow': parts ? Number(formatTimeField(parts, field)) : undefined,
+        'aria-invalid': invalid || undefined,
+        'aria-describedby': [hasFieldError(type) && `${idPrefix}-${type}-error`, timeHints[type] && `${idPrefix}-${type}-hint`]
+          .filter(Boolean).join(' ') || undefined,
+        disabled: !parts,
+        value: draft ?? (parts ? formatTimeField(parts, field) : ''),
+        onChange: (e: React.ChangeEvent<HTMLInputElement>) => {
+          const text = e.target.value;
+          setTimeDrafts(previous => ({ ...previous, [`${type}-${field}`]: text }));
+          const parsed = parseTimeField(type, field, text);
+          if (parsed !== null) handleTimeChange(type, field, parsed);
+        },
+        onKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => {
+          if (!parts) return;
+          if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+            e.preventDefault();
+            const limit = field === 'hour' ? hourBounds[type] : { min: 0, max: TIME_FIELD_MAX[field] };
+            const next = Math.min(limit.max, Math.max(limit.min, parts[field] + (e.key === 'ArrowUp' ? step : -step)));
+            setTimeDrafts(drafts => omitKey(drafts, `${type}-${field}`));
+            handleTimeChange(type, field, next);
+          } else if (field === 'hour' && clock === 12 && /^[ap]$/i.test(e.key)) {
+            e.preventDefault();
+            handleTimeChange(type, 'hour', (parts.hour % 12) + (e.key.toLowerCase() === 'p' ? 12 : 0));
+          }
+        },
+        onBlur: () => handleTimeBlur(type, field),
+      };
+    },
+    /** Live region for `announcement`; render it even while empty so changes are announced. */
+    getAnnouncementProps: () => ({
+      role: 'status' as const,
+      'aria-live': 'polite' as const,
+      'aria-atomic': true,
+    }),
+    /** Live region for timeHints[endpoint]; render it even while empty so changes are announced. */
+    getTimeHintProps: (type: TimeEndpoint) => ({
+      id: `${idPrefix}-${type}-hint`,
+      'aria-live': 'polite' as const,
+    }),
+    /** Container for the messages of errors on one field; time inputs point at it while invalid. */
+    getFieldErrorProps: (field: ValidationField) => ({
+      id: `${idPrefix}-${field}-error`,
+    }),
+    /** AM/PM select for 12h entry; unused when hourCycle is 24. */
+    getMeridiemProps: (type: TimeEndpoint) => ({
+      value: (times[type]?.hour ?? 0) >= 12 ? 'pm' : 'am',
+      'aria-label': `${type === 'start' ? messages.startTime : messages.endTime} ${messages.am}/${messages.pm}`,
+      disabled: !times[type],
+      onChange: (e: React.ChangeEvent<HTMLSelectElement>) =>
+        handleTimeChange(type, 'hour', ((times[type]?.hour ?? 0) % 12) + (e.target.value === 'pm' ? 12 : 0)),
+      onBlur: () => handleTimeBlur(type),
+    }),
+    /** A list of times every `interval` minutes for one end; see getTimeSlots. */
+    getTimeSlotListProps: (type: TimeEndpoint) => ({
+      role: 'listbox' as const,
+      'aria-label': `${type === 'start' ? messages.startTime : messages.endTime}: ${messages.timeSlots}`,
+      onKeyDown: (e: React.KeyboardEvent<HTMLElement>) => {
+        if (e.key !== 'ArrowDown' && e.key !== 'ArrowUp') return;
+        e.preventDefault();
+        const options = Array.from(e.currentTarget.querySelectorAll<HTMLElement>('[role="option"]:not([aria-disabled="true"])'));
+        const index = options.indexOf(document.activeElement as HTMLElement);
+        options[Math.min(options.length - 1, Math.max(0, index + (e.key === 'ArrowDown' ? 1 : -1)))]?.focus();
+      },
+    }),
+    getTimeSlotProps: (type: TimeEndpoint, slot: TimeSlot) => {
+      const select = () => {
+        if (slot.disabled) return;
+        handleTimePartsChange(type, { hour: Math.floor(slot.minutes / 60), minute: slot.minutes % 60, second: 0, millisecond: 0 });
+      };
+      return {
+        role: 'option' as const,
+        'aria-selected': slot.selected,
+        'aria-disabled': slot.disabled || undefined,
+        tabIndex: slot.active ? 0 : -1,
+        onClick: select,
+        onKeyDown: (e: React.KeyboardEvent<HTMLElement>) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            select();
+          }
+        },
+      };
+    },
+    getRangeTextInputProps: () => ({
+      id: `${idPrefix}-range-text`,
+      type: 'text' as const,
+      value: rangeText,
+      'aria-invalid': !!rangeTextError,
+      'aria-describedby': rangeTextError ? `${idPrefix}-range-text-error` : undefined,
+      onChange: (e: React.ChangeEvent<HTMLInputElement>) => {
+        setRangeText(e.target.value);
+        setRangeTextError(null);
+      },
+      onKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          handleRangeTextSubmit();
+        }
+      },
+      onBlur: handleRangeTextSubmit,
+    }),
+    getTimezoneSelectProps: () => ({
+      id: `${idPrefix}-timezone`,
+      value: tz,
+      onChange: handleTimezoneChange,
+    }),
+    getComparisonSelectProps: () => ({
+      id: `${idPrefix}-comparison`,
+      value: value.comparison?.mode ?? '',
+      onChange: (e: React.ChangeEvent<HTMLSelectElement>) =>
+        handleComparisonModeChange((e.target.value || null) as ComparisonMode | null),
+    }),
+    getPresetProps: (preset: Preset) => ({
+      type: 'button' as const,
+      onClick: () => handlePresetSelect(preset),
+    }),
+    getApplyProps: () => ({
+      type: 'button' as const,
+      onClick: handleApply,
+      disabled: !canApply,
+      'aria-busy': validating || undefined,
+    }),
+    getCancelProps: () => ({
+      type: 'button' as const,
+      onClick: handleCancel,
+    }),
+  };
+};
+
+export type DateTimeRangePickerState = ReturnType<typeof useDateTimeRangePicker>;
@@ -0,0 +1,66 @@
+import { useEffect, useRef, useState } from 'react';
+import { CommitMode, DateTimeRange } from './types';
+import { isSameRange } from './utils';
+
+interface UseDraftRangeOptions {
+  value?: DateTimeRange | undefined; // Controlled committed range
+  defaultValue?: DateTimeRange | undefined; // Initial committed range when uncontrolled
+  onChange?: ((value: DateTimeRange) => void) | undefined; // Called with each committed range
+  commitMode?: CommitMode | undefined;
+  onDirtyChange?: ((dirty: boolean) => void) | undefined;
+}
+
+/**
+ * The range being edited and the last committed one. With `value` the hook is
+ * controlled; otherwise it keeps the committed range itself, starting from
+ * `defaultValue` (or an empty range in the host's zone). In 'apply' mode edits
+ * stay in a draft until `commit`, `reset` discards them, and a draft is dropped
+ * when the committed range changes from outside.
+ */
+export const useDraftRange = ({ value, defaultValue, onChange, commitMode = 'immediate', onDirtyChange }: UseDraftRangeOptions) => {
+  const [initial] = useState<DateTimeRange>(
+    () => defaultValue ?? value ?? { start: null, end: null, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone });
+  const [ownValue, setOwnValue] = useState<DateTimeRange>(initial);
+  const committed = value ?? ownValue;
+  const [draft, setDraft] = useState<{ base: DateTimeRange; range: DateTimeRange } | null>(null);
+  const current = draft && isSameRange(draft.base, committed) ? draft.range : committed;
+  const dirty = !isSameRange(current, committed);
+
+  const commitRange = (next: DateTimeRange) => {
+    if (value === undefined) setOwnValue(next);
+    onChange?.(next);
+  };
+
+  // Only changes are reported, not the clean state on mount.
+  const onDirtyChangeRef = useRef(onDirtyChange);
+  onDirtyChangeRef.current = onDirtyChange;
+  const reportedDirty = useRef(false);
+  useEffect(() => {
+    if (reportedDirty.current === dirty) return;
+    reportedDirty.current = dirty;
+    onDirtyChangeRef.current?.(dirty);
+  }, [dirty]);
+
+  return {
+    value: current,
+    committed,
+    dirty,
+    change: (next: DateTimeRange) => (commitMode === 'apply' ? setDraft({ base: committed, range: next }) : commitRange(next)),
+    /**
+     * Commits the draft, if it differs, and returns the committed range. Without a draft `clean`
+     * is committed instead, for a caller that shows the committed range resolved differently.
+     */
+    commit: (clean: DateTimeRange = committed) => {
+      const next = dirty ? current : clean;
+      setDraft(null);
+      if (!isSameRange(next, committed)) commitRange(next);
+      return next;
+    },
+    reset: () => setDraft(null),
+    /** Drops the draft and commits the range the hook started with, as a form reset does. */
+    restore: () => {
+      setDraft(null);
+      if (!isSameRange(committed, initial)) commitRange(initial);
+    },
+  };
+};
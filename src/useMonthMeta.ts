@@ -0,0 +1,47 @@
+import { useEffect, useRef, useState } from 'react';
+import { MonthMeta, MonthMetaLoader, MonthMetaRequest } from './types';
+
+const toKey = ({ year, month, timezone }: MonthMetaRequest) => `${timezone}|${year}-${month}`;
+
+/**
+ * Loads day metadata for the given months with `loadMonthMeta`, caching it per
+ * month and zone for the lifetime of the component. Requests still pending when
+ * the months change are aborted; a month that failed to load is cached as empty
+ * rather than retried.
+ */
+export const useMonthMeta = (
+  requests: MonthMetaRequest[],
+  loadMonthMeta: MonthMetaLoader | undefined
+): { getMonthMeta: (request: MonthMetaRequest) => MonthMeta | undefined; isLoading: (request: MonthMetaRequest) => boolean } => {
+  const [cache, setCache] = useState<Record<string, MonthMeta>>({});
+  // The loader is often an inline function; only new months should trigger a request.
+  const loaderRef = useRef(loadMonthMeta);
+  loaderRef.current = loadMonthMeta;
+  // Read by the effect but not its triggers: a new array of the same months, or a
+  // month arriving, mustn't abort the requests still in flight.
+  const requestsRef = useRef(requests);
+  requestsRef.current = requests;
+  const cacheRef = useRef(cache);
+  cacheRef.current = cache;
+  const requestKeys = requests.map(toKey).join(',');
+
+  useEffect(() => {
+    const load = loaderRef.current;
+    if (!load) return;
+    const controller = new AbortController();
+    requestsRef.current
+      .filter(request => !(toKey(request) in cacheRef.current))
+      .forEach(request => {
+        const store = (meta: MonthMeta) => {
+          if (!controller.signal.aborted) setCache(previous => ({ ...previous, [toKey(request)]: meta }));
+        };
+        load(request, controller.signal).then(store, () => store({}));
+      });
+    return () => controller.abort();
+  }, [requestKeys]);
+
+  return {
+    getMonthMeta: (request) => cache[toKey(request)],
+    isLoading: (request) => !!loadMonthMeta && !(toKey(request) in cache),
+  };
+};
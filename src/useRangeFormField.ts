@@ -0,0 +1,72 @@
+import { useEffect, useRef } from 'react';
+import { DateTimeRange, FormValueFormat } from './types';
+import { formatInstant } from './serialize';
+
+const formatFormValue = (date: Date, timezone: string, format: FormValueFormat): string => {
+  if (typeof format === 'function') return format(date, timezone);
+  if (format === 'epoch') return String(date.getTime());
+  return format === 'offset' ? formatInstant(date, timezone) : date.toISOString();
+};
+
+interface UseRangeFormFieldOptions {
+  value: DateTimeRange; // The range to submit
+  name?: string | undefined; // Inputs are named `${name}[start]`, `${name}[end]` and `${name}[timezone]`
+  form?: string | undefined; // id of a form the inputs belong to, when they aren't inside it
+  required?: boolean | undefined;
+  format?: FormValueFormat | undefined;
+  validationMessage?: string | undefined; // Reported through setCustomValidity; empty when valid
+  onReset?: (() => void) | undefined; // Called when the owning form is reset
+}
+
+/**
+ * Lets a range take part in a native form: hidden inputs carry the value, and
+ * a visually hidden input stands in for it in constraint validation, since
+ * hidden inputs are left out of it. It is empty until both ends are set, so
+ * `required` works, and carries `validationMessage` as a custom error. The
+ * browser shows its message next to that input, at the start of the picker.
+ */
+export const useRangeFormField = ({ value, name, form, required = false, format = 'iso', validationMessage = '', onReset }: UseRangeFormFieldOptions) => {
+  const validityRef = useRef<HTMLInputElement>(null);
+  const onResetRef = useRef(onReset);
+  onResetRef.current = onReset;
+
+  // Every render, since the input may mount after the message last changed.
+  useEffect(() => {
+    validityRef.current?.setCustomValidity(validationMessage);
+  });
+
+  // Listened for on the document, where the event bubbles to after the form's own
+  // handlers, so a cancelled reset is ignored and a later `form` change is followed.
+  useEffect(() => {
+    const handleReset = (e: Event) => {
+      const owner = validityRef.current?.form;
+      if (owner && e.target === owner && !e.defaultPrevented) onResetRef.current?.();
+    };
+    document.addEventListener('reset', handleReset);
+    return () => document.removeEventListener('reset', handleReset);
+  }, []);
+
+  const hiddenInputs = name === undefined ? [] : [
+    { name: `${name}[start]`, value: value.start ? formatFormValue(value.start, value.timezone, format) : '' },
+    { name: `${name}[end]`, value: value.end ? formatFormValue(value.end, value.timezone, format) : '' },
+    { name: `${name}[timezone]`, value: value.timezone },
+  ];
+
+  return {
+    validityRef,
+    /** Read after render: whether the range passes `required` and the custom error. */
+    checkValidity: () => validityRef.current?.checkValidity() ?? validationMessage === '',
+    /** Like checkValidity, but also shows the browser's message when invalid. */
+    reportValidity: () => validityRef.current?.reportValidity() ?? validationMessage === '',
+    getHiddenInputProps: () => hiddenInputs.map(input => ({ ...input, type: 'hidden' as const, form })),
+    getValidityInputProps: () => ({
+      ref: validityRef,
+      tabIndex: -1,
+      'aria-hidden': true,
+      form,
+      required,
+      value: value.start && value.end ? 'set' : '',
+      onChange: () => {}, // Only ever set from `value`
+    }),
+  };
+};
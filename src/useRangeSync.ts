@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useState } from 'react';
+import { DateTimeRange } from './types';
+import { parseCompactRange, parseIsoInterval, toCompactRange, toIsoInterval } from './serialize';
+
+export interface RangeStorageAdapter {
+  read: () => string | null;
+  write: (value: string | null) => void;
+  /** Optional: notifies the hook when the stored value changes elsewhere (e.g. back/forward navigation). */
+  subscribe?: (listener: () => void) => () => void;
+}
+
+export type RangeSyncFormat = 'iso' | 'compact';
+
+/** Keeps the range in a query-string parameter, replacing the history entry on each change. */
+export const createSearchParamsAdapter = (param = 'range'): RangeStorageAdapter => ({
+  read: () => new URLSearchParams(window.location.search).get(param),
+  write: (value) => {
+    const url = new URL(window.location.href);
+    if (value === null) url.searchParams.delete(param);
+    else url.searchParams.set(param, value);
+    window.history.replaceState(window.history.state, '', url);
+  },
+  subscribe: (listener) => {
+    window.addEventListener('popstate', listener);
+    return () => window.removeEventListener('popstate', listener);
+  },
+});
+
+/** Keeps the value in localStorage under `key`, and hears changes made in other tabs. */
+export const createLocalStorageAdapter = (key: string): RangeStorageAdapter => ({
+  read: () => window.localStorage.getItem(key),
+  write: (value) => {
+    if (value === null) window.localStorage.removeItem(key);
+    else window.localStorage.setItem(key, value);
+  },
+  subscribe: (listener) => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === key || e.key === null) listener();
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  },
+});
+
+/** Keeps the value in memory, e.g. for tests or server rendering. Every adapter has its own value. */
+export const createMemoryAdapter = (initialValue: string | null = null): RangeStorageAdapter => {
+  let stored = initialValue;
+  return {
+    read: () => stored,
+    write: (value) => {
+      stored = value;
+    },
+  };
+};
+
+const serialize = (range: DateTimeRange, format: RangeSyncFormat) =>
+  format === 'compact' ? toCompactRange(range) : toIsoInterval(range);
+
+const deserialize = (text: string | null, format: RangeSyncFormat) => {
+  if (!text) return null;
+  return format === 'compact' ? parseCompactRange(text) : parseIsoInterval(text);
+};
+
+interface UseRangeSyncOptions {
+  adapter?: RangeStorageAdapter | undefined; // defaults to the "range" search param
+  format?: RangeSyncFormat | undefined;
+}
+
+/**
+ * State hook for a DateTimeRange that is mirrored into `location.search` (or
+ * the given adapter). The stored value wins over `initialValue` on mount, so
+ * shared links reopen with the same range and zone.
+ */
+export const useRangeSync = (
+  initialValue: DateTimeRange,
+  { adapter, format = 'iso' }: UseRangeSyncOptions = {}
+): [DateTimeRange, (value: DateTimeRange) => void] => {
+  const [storage] = useState(() => adapter ?? createSearchParamsAdapter());
+  const [value, setValue] = useState<DateTimeRange>(() => deserialize(storage.read(), format) ?? initialValue);
+
+  const update = useCallback((next: DateTimeRange) => {
+    setValue(next);
+    storage.write(next.start || next.end ? serialize(next, format) : null);
+  }, [storage, format]);
+
+  useEffect(() => {
+    if (!storage.subscribe) return undefined;
+    return storage.subscribe(() => {
+      const stored = deserialize(storage.read(), format);
+      if (stored) setValue(stored);
+    });
+  }, [storage, format]);
+
+  return [value, update];
+};
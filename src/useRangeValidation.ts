@@ -0,0 +1,60 @@
+import { useEffect, useRef, useState } from 'react';
+import { Constraints, DateTimeRange, RangeValidation, ValidationError } from './types';
+import { validateRange } from './utils';
+
+type CustomResult = { key: string; errors: ValidationError[]; pending: boolean };
+
+/**
+ * Validates a range against `constraints`: the built-in checks synchronously,
+ * then `constraints.validators` once the range is complete and passes them.
+ * Async validators for a range that has since changed are aborted, and their
+ * results ignored. `pending` is true until every validator has settled.
+ */
+export const useRangeValidation = (
+  { start, end, timezone }: Pick<DateTimeRange, 'start' | 'end' | 'timezone'>,
+  constraints: Constraints | undefined
+): RangeValidation => {
+  const builtIn = validateRange(start, end, constraints, timezone);
+  const validators = constraints?.validators ?? [];
+  const ready = !!start && !!end && builtIn.length === 0 && validators.length > 0;
+  // Timestamps rather than the dates, so an equal range in new Date objects doesn't re-run anything.
+  const startTime = start?.getTime() ?? null;
+  const endTime = end?.getTime() ?? null;
+  const key = `${startTime}_${endTime}_${timezone}_${ready}`;
+  const [custom, setCustom] = useState<CustomResult>({ key: '', errors: [], pending: false });
+  // Validators are often inline functions; only a new range should re-run them.
+  const validatorsRef = useRef(validators);
+  validatorsRef.current = validators;
+
+  useEffect(() => {
+    if (!ready || startTime === null || endTime === null) {
+      setCustom({ key, errors: [], pending: false });
+      return;
+    }
+    const range = { start: new Date(startTime), end: new Date(endTime), timezone };
+    const controller = new AbortController();
+    const settle = (errors: ValidationError[]) => {
+      if (!controller.signal.aborted) setCustom({ key, errors, pending: false });
+    };
+    const fail = () => settle([{ code: 'validationFailed', field: 'range', params: {} }]);
+    try {
+      const results = validatorsRef.current.map(validate => validate(range, controller.signal));
+      if (results.some(result => result instanceof Promise)) {
+        setCustom({ key, errors: [], pending: true });
+        Promise.all(results).then(lists => settle(lists.flat()), fail);
+      } else {
+        settle((results as ValidationError[][]).flat());
+      }
+    } catch {
+      fail();
+    }
+    return () => controller.abort();
+  }, [key, ready, startTime, endTime, timezone]);
+
+  // Until the effect has run for this range, its custom results are still outstanding.
+  const current = custom.key === key;
+  return {
+    errors: [...builtIn, ...(current ? custom.errors : [])],
+    pending: ready && (!current || custom.pending),
+  };
+};
@@ -0,0 +1,83 @@
+import { useEffect, useState } from 'react';
+import { DateTimeRange, Preset, SavedPreset } from './types';
+import { parseIsoInterval, toIsoInterval } from './serialize';
+import { createMemoryAdapter, RangeStorageAdapter } from './useRangeSync';
+
+type StoredPresets = { presets: SavedPreset[]; recent: string[] };
+
+const isSavedPreset = (value: unknown): value is SavedPreset => {
+  const preset = value as Partial<SavedPreset> | null;
+  return typeof preset?.id === 'string' && typeof preset.label === 'string' && typeof preset.range === 'string';
+};
+
+// Unreadable data counts as empty, so a bad entry never breaks the picker.
+const readStored = (storage: RangeStorageAdapter): StoredPresets => {
+  try {
+    const parsed = JSON.parse(storage.read() ?? 'null') as Partial<StoredPresets> | null;
+    return {
+      presets: Array.isArray(parsed?.presets) ? parsed.presets.filter(isSavedPreset) : [],
+      recent: Array.isArray(parsed?.recent) ? parsed.recent.filter((range): range is string => typeof range === 'string') : [],
+    };
+  } catch {
+    return { presets: [], recent: [] };
+  }
+};
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Turns a saved range (see SavedPreset) into a Preset for selectPreset: rolling
+ * ranges stay rolling, fixed ones keep their instants. Returns null for a range
+ * that can't be read or has an open end.
+ */
+export const toPreset = (label: string, range: string): Preset | null => {
+  const parsed = parseIsoInterval(range);
+  if (!parsed) return null;
+  if (parsed.relative) return { label, relative: parsed.relative };
+  const { start, end } = parsed;
+  return start && end ? { label, getRange: () => ({ start, end }) } : null;
+};
+
+interface UseSavedPresetsOptions {
+  recentLimit?: number | undefined; // How many applied ranges to keep; 0 keeps none
+}
+
+/**
+ * Presets saved by the user and the ranges they applied most recently, kept in
+ * `adapter` as JSON (in memory without one). Each change re-reads the stored
+ * value first, so edits made in another tab are not overwritten.
+ */
+export const useSavedPresets = (adapter?: RangeStorageAdapter, { recentLimit = 5 }: UseSavedPresetsOptions = {}) => {
+  const [storage] = useState(() => adapter ?? createMemoryAdapter());
+  const [stored, setStored] = useState(() => readStored(storage));
+
+  useEffect(() => {
+    if (!storage.subscribe) return undefined;
+    return storage.subscribe(() => setStored(readStored(storage)));
+  }, [storage]);
+
+  const update = (change: (current: StoredPresets) => StoredPresets) => {
+    const next = change(readStored(storage));
+    storage.write(JSON.stringify(next));
+    setStored(next);
+  };
+
+  return {
+    presets: stored.presets,
+    /** Serialized like SavedPreset.range, newest first. */
+    recent: stored.recent,
+    savePreset: (label: string, range: DateTimeRange) =>
+      update(current => ({ ...current, presets: [...current.presets, { id: createId(), label, range: toIsoInterval(range) }] })),
+    renamePreset: (id: string, label: string) =>
+      update(current => ({ ...current, presets: current.presets.map(preset => (preset.id === id ? { ...preset, label } : preset)) })),
+    deletePreset: (id: string) =>
+      update(current => ({ ...current, presets: current.presets.filter(preset => preset.id !== id) })),
+    /** Records an applied range; ranges with an open end are skipped. */
+    addRecent: (range: DateTimeRange) => {
+      if (!range.relative && (!range.start || !range.end)) return;
+      const text = toIsoInterval(range);
+      update(current => ({ ...current, recent: [text, ...current.recent.filter(item => item !== text)].slice(0, Math.max(0, recentLimit)) }));
+    },
+    clearRecent: () => update(current => ({ ...current, recent: [] })),
+  };
+};
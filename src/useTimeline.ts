@@ -0,0 +1,201 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Locale } from 'date-fns';
+import { Constraints, DateTimeRange, HourCycle, TextDirection, TimeSpan } from './types';
+import { formatInTimezone, getDayBounds, getUnavailableIntervals, getUtcOffset } from './utils';
+
+type Endpoint = 'start' | 'end';
+
+const HOUR_MS = 60 * 60 * 1000;
+const LABEL_INTERVALS = [1, 2, 3, 4, 6, 12, 24];
+
+export interface TimelineTick {
+  at: Date;
+  position: number; // Percent of the track from its start edge
+  label: string | null; // Every few hours, depending on how many days are shown
+  dayLabel: string | null; // At midnight, or the first hour of a day that skips it
+}
+
+export interface TimelineSegment {
+  position: number;
+  width: number; // Percent of the track
+}
+
+interface UseTimelineOptions {
+  value: DateTimeRange;
+  onChange: (start: Date, end: Date) => void;
+  now?: (() => Date) | undefined; // Which day to show while the range is empty
+  constraints?: Constraints | undefined;
+  step?: number | undefined; // Minutes that dragging snaps to and the arrow keys move by; defaults to 15
+  locale?: Locale | undefined;
+  hourCycle?: HourCycle | undefined;
+  dir?: TextDirection | undefined;
+  enabled?: boolean | undefined; // Skips working out ticks and shading while the timeline isn't shown
+}
+
+// Where `time` falls between `from` and `to`, as a percent clamped to the track.
+const toPercent = (time: number, from: number, to: number) => Math.min(100, Math.max(0, ((time - from) / (to - from)) * 100));
+
+/**
+ * Moves `date` to a multiple of `stepMs` on the wall clock: the nearest one, or
+ * the next one in `direction`. It counts in the UTC offset `date` has, so each
+ * step is real time and a DST change never makes it stand still or jump back.
+ */
+const snapToStep = (date: Date, stepMs: number, tz: string, direction: -1 | 0 | 1 = 0): Date => {
+  const offset = getUtcOffset(date, tz);
+  const wall = date.getTime() + offset;
+  const snapped = direction === 0 ? Math.round(wall / stepMs) : direction > 0 ? Math.floor(wall / stepMs) + 1 : Math.ceil(wall / stepMs) - 1;
+  return new Date(snapped * stepMs - offset);
+};
+
+/**
+ * A horizontal timeline of the days the range covers, plus the day after it so
+ * a range can be dragged past midnight. Dragging on the track draws a range,
+ * dragging a handle moves that end, and both snap to `step`. The handles are
+ * sliders: the arrow keys move them by a step, PageUp/PageDown by an hour.
+ */
+export const useTimeline = ({ value, onChange, now = () => new Date(), constraints, step = 15, locale, hourCycle = 24, dir = 'ltr', enabled = true }: UseTimelineOptions) => {
+  const tz = value.timezone;
+  const stepMs = Math.max(1, step) * 60 * 1000;
+  const trackRef = useRef<HTMLDivElement>(null);
+  // The shown days stay put during a drag, so the track doesn't shift under the pointer.
+  const [drag, setDrag] = useState<{ anchor: Date; span: TimeSpan } | null>(null);
+
+  const first = value.start ?? value.end ?? now();
+  const last = value.end && value.end > first ? value.end : first;
+  const computedStart = getDayBounds(first, tz).start.getTime();
+  const computedEnd = getDayBounds(getDayBounds(last, tz).end, tz).end.getTime();
+  const span = drag?.span ?? { start: new Date(computedStart), end: new Date(computedEnd) };
+  // Timestamps for the memos, which would otherwise see a new span every render.
+  const spanStart = span.start.getTime();
+  const spanEnd = span.end.getTime();
+  const length = spanEnd - spanStart;
+  const toPosition = (date: Date) => toPercent(date.getTime(), spanStart, spanEnd);
+  const toSegment = (from: Date, to: Date): TimelineSegment => ({ position: toPosition(from), width: toPosition(to) - toPosition(from) });
+  // Logical insets, so the track runs right to left in RTL layouts.
+  const positionStyle = (position: number, width?: number) => ({ insetInlineStart: `${position}%`, ...(width !== undefined && { width: `${width}%` }) });
+
+  const ticks = useMemo(() => {
+    const hours = (spanEnd - spanStart) / HOUR_MS;
+    const result: TimelineTick[] = [];
+    if (!enabled) return result;
+    // Past two weeks an hour is too narrow to mark: one tick per day, labelled with the date.
+    if (hours > 14 * 24) {
+      for (let day = getDayBounds(new Date(spanStart), tz); day.start.getTime() < spanEnd; day = getDayBounds(day.end, tz)) {
+        result.push({ at: day.start, position: toPercent(day.start.getTime(), spanStart, spanEnd), label: null, dayLabel: formatInTimezone(day.start, tz, 'MMM d', locale) });
+      }
+      return result;
+    }
+    const labelEvery = LABEL_INTERVALS.find(n => hours / n <= 12) ?? 24;
+    let previousDay = '';
+    for (let time = spanStart; time < spanEnd; time += HOUR_MS) {
+      const at = new Date(time);
+      const hour = Number(formatInTimezone(at, tz, 'H'));
+      const day = formatInTimezone(at, tz, 'yyyy-MM-dd');
+      result.push({
+        at,
+        position: toPercent(time, spanStart, spanEnd),
+        label: hour % labelEvery === 0 ? formatInTimezone(at, tz, hourCycle === 12 ? 'h a' : 'HH', locale) : null,
+        dayLabel: day !== previousDay ? formatInTimezone(at, tz, 'EEE d', locale) : null,
+      });
+      previousDay = day;
+    }
+    return result;
+  }, [spanStart, spanEnd, tz, locale, hourCycle, enabled]);
+
+  const unavailable = useMemo(() => {
+    if (!enabled) return [];
+    return getUnavailableIntervals({ start: new Date(spanStart), end: new Date(spanEnd) }, constraints, tz).map(interval => {
+      const position = toPercent(interval.start.getTime(), spanStart, spanEnd);
+      return { kind: interval.kind, position, width: toPercent(interval.end.getTime(), spanStart, spanEnd) - position };
+    });
+  }, [spanStart, spanEnd, tz, constraints, enabled]);
+
+  const selection = value.start && value.end ? toSegment(value.start, value.end) : null;
+
+  const timeAt = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return span.start;
+    const fraction = Math.min(1, Math.max(0, (dir === 'rtl' ? rect.right - clientX : clientX - rect.left) / rect.width));
+    return snapToStep(new Date(span.start.getTime() + fraction * length), stepMs, tz);
+  };
+
+  const emitBetween = (a: Date, b: Date) => onChange(a < b ? a : b, a < b ? b : a);
+
+  const nudge = (endpoint: Endpoint, direction: -1 | 1, size: number) => {
+    const current = value[endpoint];
+    const other = value[endpoint === 'start' ? 'end' : 'start'];
+    if (!current || !other) return;
+    let next = snapToStep(current, size, tz, direction);
+    // An end can meet the other end but not pass it.
+    if (endpoint === 'start' && next > other) next = other;
+    if (endpoint === 'end' && next < other) next = other;
+    onChange(endpoint === 'start' ? next : other, endpoint === 'start' ? other : next);
+  };
+
+  const valueText = (date: Date) => formatInTimezone(date, tz, hourCycle === 12 ? 'EEE MMM d, h:mm a' : 'EEE MMM d, HH:mm', locale);
+
+  return {
+    span,
+    ticks,
+    unavailable,
+    selection,
+    dragging: drag !== null,
+    getTrackProps: () => ({
+      ref: trackRef,
+      onPointerDown: (e: React.PointerEvent<HTMLDivElement>) => {
+        if (e.button !== 0) return;
+        e.preventDefault();
+        // A handle keeps the other end as the anchor; anywhere else starts a new range.
+        const handleElement = (e.target as HTMLElement).closest<HTMLElement>('[data-handle]');
+        handleElement?.focus(); // preventDefault above stops the browser from doing it
+        const handle = handleElement?.getAttribute('data-handle');
+        const anchor = handle === 'start' && value.end ? value.end : handle === 'end' && value.start ? value.start : timeAt(e.clientX);
+        setDrag({ anchor, span });
+        e.currentTarget.setPointerCapture?.(e.pointerId);
+      },
+      onPointerMove: (e: React.PointerEvent<HTMLDivElement>) => {
+        if (!drag) return;
+        const at = timeAt(e.clientX);
+        if (at.getTime() !== drag.anchor.getTime()) emitBetween(drag.anchor, at);
+      },
+      onPointerUp: () => setDrag(null),
+      onPointerCancel: () => setDrag(null),
+    }),
+    getSelectionProps: () => ({
+      'aria-hidden': true,
+      style: selection ? positionStyle(selection.position, selection.width) : undefined,
+    }),
+    getHandleProps: (endpoint: Endpoint, label: string) => {
+      const date = value[endpoint];
+      const [left, right]: [-1 | 1, -1 | 1] = dir === 'rtl' ? [1, -1] : [-1, 1];
+      return {
+        role: 'slider' as const,
+        tabIndex: 0,
+        'aria-label': label,
+        'aria-orientation': 'horizontal' as const,
+        'aria-valuemin': span.start.getTime(),
+        'aria-valuemax': span.end.getTime(),
+        'aria-valuenow': date?.getTime(),
+        'aria-valuetext': date ? valueText(date) : undefined,
+        'data-handle': endpoint,
+        style: date ? positionStyle(toPosition(date)) : undefined,
+        onKeyDown: (e: React.KeyboardEvent) => {
+          const moves: Record<string, [-1 | 1, number]> = {
+            ArrowRight: [right, stepMs],
+            ArrowLeft: [left, stepMs],
+            ArrowUp: [1, stepMs],
+            ArrowDown: [-1, stepMs],
+            PageUp: [1, HOUR_MS],
+            PageDown: [-1, HOUR_MS],
+          };
+          const move = moves[e.key];
+          if (!move) return;
+          e.preventDefault();
+          nudge(endpoint, ...move);
+        },
+      };
+    },
+    /** Style placing a tick (`position`) or a shaded stretch (`position` and `width`) on the track. */
+    getPositionStyle: positionStyle,
+  };
+};
@@ -1,48 +1,377 @@
-import { addDays, format, isBefore, isAfter, differenceInMilliseconds } from 'date-fns';
-import { zonedTimeToUtc, utcToZonedTime } from 'date-fns-tz';
+import { format, differenceInMilliseconds, Locale } from 'date-fns';
+import { AllowedTimeWindow, BlackoutInterval, BlackoutRule, ComparisonMode, Constraints, DateTimeRange, DstPolicy, Granularity, TimeSpan, ValidationError, WallTimeKind, WeekDay } from './types';
 
-export const getZonedDate = (year: number, month: number, day: number, tz: string): Date => {
-  const date = new Date(year, month, day, 12, 0, 0); // Noon to avoid DST issues
-  return zonedTimeToUtc(date, tz);
+export { parseRangeText } from './parseRange';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/*
+ * Date math here never goes through the host's local time. A wall-clock reading
+ * in a zone is held as a "wall time": a timestamp whose UTC fields (getUTCHours
+ * and so on) are the reading, so calendar arithmetic is plain Date.UTC math and
+ * only resolveWallTime converts back to an instant.
+ */
+
+const wallClockFormats = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * The wall-clock reading of `date` in `tz`, as a wall time. Read through Intl,
+ * because date-fns-tz's getTimezoneOffset takes its date as a wall-clock time
+ * and is off by the DST shift in the hours around a change.
+ */
+export const toWallTime = (date: Date, tz: string): number => {
+  let formatter = wallClockFormats.get(tz);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: tz, hourCycle: 'h23', era: 'short',
+      year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+    });
+    wallClockFormats.set(tz, formatter);
+  }
+  const fields: Partial<Record<Intl.DateTimeFormatPartTypes, string>> = {};
+  formatter.formatToParts(date).forEach(part => { fields[part.type] = part.value; });
+  const year = Number(fields.year);
+  const wall = new Date(0);
+  wall.setUTCFullYear(fields.era === 'BC' ? 1 - year : year, Number(fields.month) - 1, Number(fields.day));
+  wall.setUTCHours(Number(fields.hour), Number(fields.minute), Number(fields.second), ((date.getTime() % 1000) + 1000) % 1000);
+  return wall.getTime();
+};
+
+/** The offset of `tz` from UTC at `date`, in milliseconds. */
+export const getUtcOffset = (date: Date, tz: string): number => toWallTime(date, tz) - date.getTime();
+
+/**
+ * The instants a wall-clock reading in `tz` stands for. Usually that is one
+ * ('exact', `earlier` equal to `later`). A reading a DST change skips ('gap')
+ * has none: `earlier` and `later` are the reading moved back or forward by the
+ * gap. A reading that happens twice ('overlap') has both.
+ */
+export const resolveWallTime = (wall: number, tz: string): { kind: WallTimeKind; earlier: Date; later: Date } => {
+  const before = getUtcOffset(new Date(wall - DAY_MS), tz);
+  const after = getUtcOffset(new Date(wall + DAY_MS), tz);
+  const matches = Array.from(new Set([before, after]), offset => wall - offset)
+    .filter(instant => toWallTime(new Date(instant), tz) === wall)
+    .sort((a, b) => a - b);
+  const [first, second] = matches;
+  if (first === undefined) {
+    // Read with the offset from before the change it lands after the gap, and vice versa.
+    return { kind: 'gap', earlier: new Date(wall - after), later: new Date(wall - before) };
+  }
+  return { kind: second === undefined ? 'exact' : 'overlap', earlier: new Date(first), later: new Date(second ?? first) };
+};
+
+export const DEFAULT_DST_POLICY: DstPolicy = { gap: 'later', overlap: 'earlier' };
+
+/**
+ * Converts a wall time in `tz` to an instant, settling skipped and repeated
+ * readings by `policy`. Returns null where the policy is 'reject'.
+ */
+export const fromWallTime = (wall: number, tz: string, policy: DstPolicy = DEFAULT_DST_POLICY): Date | null => {
+  const { kind, earlier, later } = resolveWallTime(wall, tz);
+  if (kind === 'exact') return earlier;
+  const choice = kind === 'gap' ? policy.gap : policy.overlap;
+  if (choice === 'reject') return null;
+  return choice === 'earlier' ? earlier : later;
+};
+
+// Milliseconds since midnight of a wall time, also before 1970.
+const timeOfDay = (wall: number): number => ((wall % DAY_MS) + DAY_MS) % DAY_MS;
+
+// The default policy always picks an instant.
+const atWallTime = (wall: number, tz: string): Date => fromWallTime(wall, tz) as Date;
+
+const getWallParts = (date: Date, tz: string) => {
+  const wall = new Date(toWallTime(date, tz));
+  return {
+    year: wall.getUTCFullYear(),
+    month: wall.getUTCMonth(),
+    day: wall.getUTCDate(),
+    weekday: wall.getUTCDay(),
+    minutes: wall.getUTCHours() * 60 + wall.getUTCMinutes(),
+  };
 };
 
+/** Noon on the given calendar day in `tz`; `month` is 0-11. Calendar cells use these as markers. */
+export const getZonedDate = (year: number, month: number, day: number, tz: string): Date =>
+  atWallTime(Date.UTC(year, month, day, 12), tz);
+
 export const getCalendarDays = (year: number, month: number, tz: string): Date[] => {
-  const monthStart = getZonedDate(year, month, 1, tz);
-  const nextMonth = month + 1 > 11 ? 0 : month + 1;
-  const nextYear = month + 1 > 11 ? year + 1 : year;
-  const monthEnd = getZonedDate(nextYear, nextMonth, 0, tz);
-  const days: Date[] = [];
-  let current = monthStart;
-  while (current <= monthEnd) {
-    days.push(current);
-    current = addDays(current, 1);
+  const length = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return Array.from({ length }, (_, i) => getZonedDate(year, month, i + 1, tz));
+};
+
+/** Moves by whole calendar days in `tz`, keeping the wall-clock time. */
+export const addZonedDays = (date: Date, days: number, tz: string): Date => atWallTime(toWallTime(date, tz) + days * DAY_MS, tz);
+
+/** Moves by whole calendar months in `tz` to the noon marker of the same day, or the month's last day if it is shorter. */
+export const addZonedMonths = (date: Date, months: number, tz: string): Date => {
+  const wall = new Date(toWallTime(date, tz));
+  const year = wall.getUTCFullYear();
+  const month = wall.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return getZonedDate(year, month, Math.min(wall.getUTCDate(), lastDay), tz);
+};
+
+export const isSameZonedDay = (a: Date, b: Date, tz: string): boolean =>
+  Math.floor(toWallTime(a, tz) / DAY_MS) === Math.floor(toWallTime(b, tz) / DAY_MS);
+
+/**
+ * date-fns formats local time, so the reading is rebuilt as a local Date. Only a
+ * reading inside the host's own DST gap can come out moved by that gap.
+ */
+export const formatInTimezone = (date: Date, tz: string, formatStr: string, locale?: Locale): string => {
+  const wall = new Date(toWallTime(date, tz));
+  const local = new Date(0);
+  local.setFullYear(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate());
+  local.setHours(wall.getUTCHours(), wall.getUTCMinutes(), wall.getUTCSeconds(), wall.getUTCMilliseconds());
+  return format(local, formatStr, locale ? { locale } : undefined);
+};
+
+const matchesBlackoutRule = (rule: BlackoutRule, year: number, month: number, day: number): boolean => {
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  switch (rule.type) {
+    case 'weekdays':
+      return rule.days.includes(weekday);
+    case 'annual':
+      return rule.month === month && rule.day === day;
+    case 'nthWeekday': {
+      if (rule.weekday !== weekday || (rule.month !== undefined && rule.month !== month)) return false;
+      if (rule.nth === -1) {
+        const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+        return day + 7 > daysInMonth;
+      }
+      return Math.ceil(day / 7) === rule.nth;
+    }
   }
-  return days;
 };
 
-export const formatInTimezone = (date: Date, tz: string, formatStr: string): string => {
-  return format(utcToZonedTime(date, tz), formatStr);
+export const isBlackoutRuleDay = (date: Date, rules: BlackoutRule[], tz: string): boolean => {
+  const { year, month, day } = getWallParts(date, tz);
+  return rules.some(rule => matchesBlackoutRule(rule, year, month + 1, day));
+};
+
+/** Intervals are half-open: a range may end exactly where a blackout starts. */
+export const findBlackoutInterval = (start: Date, end: Date, intervals: BlackoutInterval[]): BlackoutInterval | undefined =>
+  intervals.find(interval => start < interval.end && end > interval.start);
+
+/** The calendar day `date` falls on in `tz`, from its first instant up to the next day's; 23 or 25 hours across a DST change. */
+export const getDayBounds = (date: Date, tz: string): TimeSpan => {
+  const { year, month, day } = getWallParts(date, tz);
+  return { start: atWallTime(Date.UTC(year, month, day), tz), end: atWallTime(Date.UTC(year, month, day + 1), tz) };
+};
+
+const toMinutes = (time: string): number => {
+  const [hour = 0, minute = 0] = time.split(':').map(Number);
+  return hour * 60 + minute;
+};
+
+/** Allowed windows for the weekday `date` falls on in `tz`, in minutes since midnight. */
+export const getAllowedTimeWindows = (date: Date, windows: AllowedTimeWindow[], tz: string): { start: number; end: number }[] => {
+  const { weekday } = getWallParts(date, tz);
+  return windows
+    .filter(window => window.days.includes(weekday))
+    .map(window => ({ start: toMinutes(window.start), end: toMinutes(window.end) }));
+};
+
+export const isTimeAllowed = (date: Date, constraints: Constraints | undefined, tz: string): boolean => {
+  if (!constraints?.allowedTimes) return true;
+  const { minutes } = getWallParts(date, tz);
+  return getAllowedTimeWindows(date, constraints.allowedTimes, tz).some(w => minutes >= w.start && minutes <= w.end);
+};
+
+/**
+ * Moves `date` to the nearest allowed time on the same day. Days without any
+ * window are returned unchanged; isDateDisabled already rules them out.
+ */
+export const clampToAllowedTime = (date: Date, constraints: Constraints | undefined, tz: string): Date => {
+  if (!constraints?.allowedTimes || isTimeAllowed(date, constraints, tz)) return date;
+  const windows = getAllowedTimeWindows(date, constraints.allowedTimes, tz);
+  if (windows.length === 0) return date;
+  const { minutes } = getWallParts(date, tz);
+  const nearest = windows
+    .flatMap(w => [w.start, w.end])
+    .reduce((best, candidate) => (Math.abs(candidate - minutes) < Math.abs(best - minutes) ? candidate : best));
+  const wall = toWallTime(date, tz);
+  return atWallTime(wall - timeOfDay(wall) + nearest * 60 * 1000, tz);
 };
 
 export const isDateDisabled = (date: Date, constraints: Constraints | undefined, tz: string): boolean => {
   if (!constraints) return false;
-  const zonedDate = utcToZonedTime(date, tz);
-  if (constraints.min && isBefore(zonedDate, constraints.min)) return true;
-  if (constraints.max && isAfter(zonedDate, constraints.max)) return true;
-  if (constraints.blackouts) {
-    return constraints.blackouts.some(blackout => formatInTimezone(date, tz, 'yyyy-MM-dd') === formatInTimezone(blackout, tz, 'yyyy-MM-dd'));
+  // A day stays available while any part of it is within min and max.
+  const bounds = getDayBounds(date, tz);
+  if (constraints.min && bounds.end <= constraints.min) return true;
+  if (constraints.max && bounds.start > constraints.max) return true;
+  if (constraints.blackouts?.some(blackout => isSameZonedDay(date, blackout, tz))) return true;
+  if (constraints.blackoutRules && isBlackoutRuleDay(date, constraints.blackoutRules, tz)) return true;
+  if (constraints.allowedTimes && getAllowedTimeWindows(date, constraints.allowedTimes, tz).length === 0) return true;
+  if (constraints.blackoutIntervals) {
+    // Only a day that is blacked out from midnight to midnight is disabled outright.
+    return constraints.blackoutIntervals.some(interval => interval.start <= bounds.start && interval.end >= bounds.end);
   }
   return false;
 };
 
-export const validateRange = (start: Date | null, end: Date | null, constraints: Constraints | undefined): string | null => {
-  if (!start || !end || !constraints) return null;
+export type UnavailableInterval = TimeSpan & { kind: 'blackout' | 'disallowed' };
+
+/**
+ * The parts of `span` a range can't start or end in, for shading a timeline:
+ * disabled days and blackout intervals ('blackout'), and times outside the
+ * allowed hours or before `min` / after `max` ('disallowed'). They may overlap.
+ */
+export const getUnavailableIntervals = (span: TimeSpan, constraints: Constraints | undefined, tz: string): UnavailableInterval[] => {
+  if (!constraints) return [];
+  const intervals: UnavailableInterval[] = [];
+  for (let day = getDayBounds(span.start, tz); day.start < span.end; day = getDayBounds(day.end, tz)) {
+    if (isDateDisabled(day.start, constraints, tz)) {
+      intervals.push({ ...day, kind: 'blackout' });
+      continue;
+    }
+    if (!constraints.allowedTimes) continue;
+    // Windows include their last minute, so the gap after one starts a minute later.
+    const dayWall = toWallTime(day.start, tz) - timeOfDay(toWallTime(day.start, tz));
+    const atMinute = (minutes: number) => (minutes >= 24 * 60 ? day.end : atWallTime(dayWall + minutes * 60 * 1000, tz));
+    const windows = getAllowedTimeWindows(day.start, constraints.allowedTimes, tz).sort((a, b) => a.start - b.start);
+    let from = 0;
+    for (const window of [...windows, { start: 24 * 60, end: 24 * 60 }]) {
+      if (window.start > from) intervals.push({ start: atMinute(from), end: atMinute(window.start), kind: 'disallowed' });
+      from = Math.max(from, window.end + 1);
+    }
+  }
+  if (constraints.min && constraints.min > span.start) intervals.push({ start: span.start, end: constraints.min, kind: 'disallowed' });
+  if (constraints.max && constraints.max < span.end) intervals.push({ start: constraints.max, end: span.end, kind: 'disallowed' });
+  for (const interval of constraints.blackoutIntervals ?? []) {
+    if (interval.start < span.end && interval.end > span.start) intervals.push({ ...interval, kind: 'blackout' });
+  }
+  return intervals
+    .map(interval => ({ ...interval, start: interval.start < span.start ? span.start : interval.start, end: interval.end > span.end ? span.end : interval.end }))
+    .filter(interval => interval.start < interval.end);
+};
+
+const validateEndpoint = (date: Date, field: 'start' | 'end', constraints: Constraints, tz: string): ValidationError | null => {
+  if (constraints.min && date < constraints.min) return { code: 'beforeMin', field, params: { min: constraints.min } };
+  if (constraints.max && date > constraints.max) return { code: 'afterMax', field, params: { max: constraints.max } };
+  if (isDateDisabled(date, constraints, tz)) return { code: 'unavailableDate', field, params: {} };
+  if (!isTimeAllowed(date, constraints, tz)) return { code: 'outsideAllowedHours', field, params: {} };
+  // A range may start as a blackout ends, or end as one starts.
+  const inBlackout = constraints.blackoutIntervals?.some(interval =>
+    field === 'start' ? date >= interval.start && date < interval.end : date > interval.start && date < interval.end);
+  if (inBlackout) return { code: 'inBlackout', field, params: {} };
+  return null;
+};
+
+/**
+ * Runs the built-in checks: each selected endpoint against min/max, blackouts
+ * and allowed hours, then the range as a whole. Returns every failure, with the
+ * field it belongs to; use getErrorMessage to turn one into text.
+ */
+export const validateRange = (
+  start: Date | null,
+  end: Date | null,
+  constraints: Constraints | undefined,
+  tz = 'UTC'
+): ValidationError[] => {
+  if (!constraints) return [];
+  const errors = [
+    start && validateEndpoint(start, 'start', constraints, tz),
+    end && validateEndpoint(end, 'end', constraints, tz),
+  ].filter((error): error is ValidationError => !!error);
+  if (!start || !end) return errors;
+
+  if (end < start) return [...errors, { code: 'endBeforeStart', field: 'range', params: {} }];
   const duration = differenceInMilliseconds(end, start);
   if (constraints.minDuration && duration < constraints.minDuration) {
-    return `Duration must be at least ${constraints.minDuration / 1000 / 60} minutes`;
+    errors.push({ code: 'minDuration', field: 'range', params: { minutes: constraints.minDuration / 1000 / 60 } });
   }
   if (constraints.maxDuration && duration > constraints.maxDuration) {
-    return `Duration must be at most ${constraints.maxDuration / 1000 / 60} minutes`;
+    errors.push({ code: 'maxDuration', field: 'range', params: { minutes: constraints.maxDuration / 1000 / 60 } });
   }
-  return null;
-};
\ No newline at end of file
+  if (
+    constraints.blackoutIntervals
+    && !constraints.allowBlackoutsInRange
+    && !errors.some(error => error.code === 'inBlackout')
+    && findBlackoutInterval(start, end, constraints.blackoutIntervals)
+  ) {
+    errors.push({ code: 'overlapsBlackout', field: 'range', params: {} });
+  }
+  return errors;
+};
+
+/**
+ * Derives the comparison for a primary range. 'previousPeriod' is the period of
+ * equal length right before `start`; an end at 23:59 counts as the whole day, so
+ * Mar 8 00:00 – Mar 14 23:59 compares with Mar 1 00:00 – Mar 7 23:59.
+ * 'previousYear' keeps the same wall-clock times one year earlier.
+ */
+export const getComparisonRange = (
+  start: Date,
+  end: Date,
+  mode: Exclude<ComparisonMode, 'custom'>,
+  tz: string
+): { start: Date; end: Date } => {
+  if (mode === 'previousYear') {
+    // Feb 29 becomes Feb 28.
+    const shift = (date: Date) => {
+      const { year, month, day } = getWallParts(date, tz);
+      const lastDay = new Date(Date.UTC(year - 1, month + 1, 0)).getUTCDate();
+      return atWallTime(Date.UTC(year - 1, month, Math.min(day, lastDay)) + timeOfDay(toWallTime(date, tz)), tz);
+    };
+    return { start: shift(start), end: shift(end) };
+  }
+  // Shift in wall-clock time so a week of whole days stays whole days across a DST change.
+  const wallStart = toWallTime(start, tz);
+  const wallEnd = toWallTime(end, tz);
+  const endsAtEndOfDay = getWallParts(end, tz).minutes === 23 * 60 + 59;
+  const length = (endsAtEndOfDay ? wallEnd - timeOfDay(wallEnd) + DAY_MS : wallEnd) - wallStart;
+  return { start: atWallTime(wallStart - length, tz), end: atWallTime(wallEnd - length, tz) };
+};
+
+const sameInstant = (a: Date | null | undefined, b: Date | null | undefined) => (a?.getTime() ?? null) === (b?.getTime() ?? null);
+
+/** Whether two ranges have the same ends, zone, rolling expressions and comparison. */
+export const isSameRange = (a: DateTimeRange, b: DateTimeRange): boolean =>
+  sameInstant(a.start, b.start) && sameInstant(a.end, b.end) && a.timezone === b.timezone &&
+  a.relative?.start === b.relative?.start && a.relative?.end === b.relative?.end &&
+  a.comparison?.mode === b.comparison?.mode &&
+  sameInstant(a.comparison?.start, b.comparison?.start) && sameInstant(a.comparison?.end, b.comparison?.end);
+
+/** Recomputes a derived comparison after the primary range changed; custom ones are left alone. */
+export const syncComparison = (range: DateTimeRange): DateTimeRange => {
+  const comparison = range.comparison;
+  if (!comparison || comparison.mode === 'custom') return range;
+  if (!range.start || !range.end) return { ...range, comparison: { mode: comparison.mode, start: null, end: null } };
+  return { ...range, comparison: { mode: comparison.mode, ...getComparisonRange(range.start, range.end, comparison.mode, range.timezone) } };
+};
+
+/**
+ * The whole day, week, month, quarter or year containing `date` in `tz`, from
+ * 00:00 on its first day to 23:59 on its last, like a range picked by day.
+ */
+export const getPeriodBounds = (date: Date, granularity: Granularity, tz: string, weekStartsOn: WeekDay = 1): TimeSpan => {
+  const { year, month, day, weekday } = getWallParts(date, tz);
+  const quarter = month - (month % 3);
+  const weekFirst = day - ((weekday - weekStartsOn + 7) % 7);
+  // First and last day of each kind of period, as wall times.
+  const days: Record<Granularity, [number, number]> = {
+    day: [Date.UTC(year, month, day), Date.UTC(year, month, day)],
+    week: [Date.UTC(year, month, weekFirst), Date.UTC(year, month, weekFirst + 6)],
+    month: [Date.UTC(year, month, 1), Date.UTC(year, month + 1, 0)],
+    quarter: [Date.UTC(year, quarter, 1), Date.UTC(year, quarter + 3, 0)],
+    year: [Date.UTC(year, 0, 1), Date.UTC(year, 11, 31)],
+  };
+  const [first, last] = days[granularity];
+  return { start: atWallTime(first, tz), end: atWallTime(last + DAY_MS - 60 * 1000, tz) };
+};
+
+/** Sorts ranges and merges any that overlap or touch. */
+export const mergeRanges = (ranges: TimeSpan[]): TimeSpan[] => {
+  const sorted = [...ranges].sort((a, b) => a.start.getTime() - b.start.getTime());
+  return sorted.reduce<TimeSpan[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      if (range.end > last.end) merged[merged.length - 1] = { start: last.start, end: range.end };
+    } else {
+      merged.push(range);
+    }
+    return merged;
+  }, []);
+};
@@ -9,6 +9,34 @@ export default {
       colors: {
         primary: "var(--color-primary)",
         secondary: "var(--color-secondary)",
+        picker: {
+          surface: "var(--dtrp-surface)",
+          muted: "var(--dtrp-muted)",
+          hover: "var(--dtrp-hover)",
+          border: "var(--dtrp-border)",
+          divider: "var(--dtrp-divider)",
+          text: "var(--dtrp-text)",
+          "text-muted": "var(--dtrp-text-muted)",
+          "text-subtle": "var(--dtrp-text-subtle)",
+          "text-disabled": "var(--dtrp-text-disabled)",
+          accent: "var(--dtrp-accent)",
+          "accent-hover": "var(--dtrp-accent-hover)",
+          "on-accent": "var(--dtrp-on-accent)",
+          focus: "var(--dtrp-focus)",
+          range: "var(--dtrp-range)",
+          "range-text": "var(--dtrp-range-text)",
+          preview: "var(--dtrp-preview)",
+          "preview-text": "var(--dtrp-preview-text)",
+          comparison: "var(--dtrp-comparison)",
+          "comparison-soft": "var(--dtrp-comparison-soft)",
+          "comparison-text": "var(--dtrp-comparison-text)",
+          other: "var(--dtrp-other)",
+          "other-text": "var(--dtrp-other-text)",
+          danger: "var(--dtrp-danger)",
+          warning: "var(--dtrp-warning)",
+          heat: "var(--dtrp-heat)",
+          badge: "var(--dtrp-badge)",
+        },
       },
       spacing: {
         18: "4.5rem",
@@ -0,0 +1,129 @@
+import { createRef } from 'react';
+import { act, render, screen, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import DateTimeRangeInput from '../src/DateTimeRangeInput';
+import { DateTimeRangePickerHandle } from '../src/DateTimeRangePicker';
+import { DateTimeRange } from '../src/types';
+
+const value: DateTimeRange = {
+  start: new Date('2024-03-01T14:00:00Z'), // 09:00 EST
+  end: new Date('2024-03-01T22:30:00Z'), // 17:30 EST
+  timezone: 'America/New_York',
+};
+
+test('typing into the segments changes the range in its timezone', async () => {
+  const user = userEvent.setup();
+  const onChange = jest.fn();
+  render(<DateTimeRangeInput value={value} onChange={onChange} />);
+  expect(screen.getByLabelText('Start year')).toHaveValue('2024');
+  expect(screen.getByLabelText('End hour')).toHaveValue('17');
+
+  await user.click(screen.getByLabelText('Start day'));
+  await user.keyboard('15');
+  expect(onChange).toHaveBeenLastCalledWith({ ...value, start: new Date('2024-03-15T13:00:00Z') }); // 09:00 EDT
+  expect(screen.getByLabelText('Start hour')).toHaveFocus();
+});
+
+test('incomplete or impossible dates are not emitted', async () => {
+  const user = userEvent.setup();
+  const onChange = jest.fn();
+  render(<DateTimeRangeInput value={value} onChange={onChange} />);
+  await user.click(screen.getByLabelText('Start month'));
+  await user.keyboard('02');
+  await user.click(screen.getByLabelText('Start day'));
+  await user.keyboard('30');
+  expect(onChange).toHaveBeenCalledTimes(1); // only the valid Feb 1
+  fireEvent.keyDown(screen.getByLabelText('Start minute'), { key: 'ArrowUp' });
+  expect(onChange).toHaveBeenCalledTimes(1);
+});
+
+test('stepping an empty year starts from the injected clock', () => {
+  render(<DateTimeRangeInput value={{ ...value, start: null }} onChange={() => {}} now={() => new Date('2031-06-01T12:00:00Z')} />);
+  fireEvent.keyDown(screen.getByLabelText('Start year'), { key: 'ArrowUp' });
+  expect(screen.getByLabelText('Start year')).toHaveValue('2031');
+});
+
+test('validators run once per range, with the popover open too', async () => {
+  const user = userEvent.setup();
+  const validate = jest.fn(() => [{ code: 'busy', field: 'range' as const, params: {}, message: 'Busy then' }]);
+  render(<DateTimeRangeInput value={value} onChange={() => {}} constraints={{ validators: [validate] }} />);
+  await user.click(screen.getByRole('button', { name: 'Open calendar' }));
+  expect(validate).toHaveBeenCalledTimes(1);
+  expect(screen.getAllByText('Busy then').length).toBeGreaterThan(0);
+});
+
+test('the popover traps focus and returns it to the field on Escape and Apply', async () => {
+  const user = userEvent.setup();
+  const onApply = jest.fn();
+  render(<DateTimeRangeInput value={value} onChange={() => {}} onApply={onApply} />);
+  const trigger = screen.getByRole('button', { name: 'Open calendar' });
+
+  await user.click(trigger);
+  const dialog = screen.getByRole('dialog');
+  expect(dialog).toContainElement(document.activeElement as HTMLElement);
+  await user.tab({ shift: true });
+  expect(dialog).toContainElement(document.activeElement as HTMLElement);
+  await user.keyboard('{Escape}');
+  expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  expect(trigger).toHaveFocus();
+
+  await user.click(trigger);
+  await user.click(screen.getByRole('button', { name: 'Apply' }));
+  expect(onApply).toHaveBeenCalledWith(value);
+  expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  expect(trigger).toHaveFocus();
+});
+
+test('clicking outside closes the popover', async () => {
+  const user = userEvent.setup();
+  render(<DateTimeRangeInput value={value} onChange={() => {}} />);
+  await user.click(screen.getByRole('button', { name: 'Open calendar' }));
+  await user.click(document.body);
+  expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+});
+
+test('submits the range with its form while the popover is closed, and resets with it', async () => {
+  const user = userEvent.setup();
+  const { container } = render(<form><DateTimeRangeInput name="when" formValueFormat="epoch" defaultValue={value} /></form>);
+  const form = container.querySelector('form') as HTMLFormElement;
+  expect(Object.fromEntries(new FormData(form))).toEqual({
+    'when[start]': String(value.start?.getTime()),
+    'when[end]': String(value.end?.getTime()),
+    'when[timezone]': 'America/New_York',
+  });
+
+  await user.click(screen.getByLabelText('End day'));
+  await user.keyboard('02');
+  expect(new FormData(form).get('when[end]')).toBe(String(new Date('2024-03-02T22:30:00Z').getTime()));
+  fireEvent.reset(form);
+  expect(screen.getByLabelText('End day')).toHaveValue('01');
+});
+
+test('the ref lets a form library register the field like the picker', async () => {
+  const user = userEvent.setup();
+  const ref = createRef<DateTimeRangePickerHandle>();
+  const onApply = jest.fn();
+  render(<DateTimeRangeInput ref={ref} name="when" required defaultValue={value} onApply={onApply} commitMode="apply" now={() => new Date('2024-03-05T12:00:00Z')} />);
+  expect(ref.current?.name).toBe('when');
+  expect(ref.current?.value).toEqual(value);
+  expect(ref.current?.checkValidity()).toBe(true);
+  act(() => ref.current?.focus());
+  expect(screen.getByLabelText('Start year')).toHaveFocus();
+
+  await user.click(screen.getByLabelText('End day'));
+  await user.keyboard('{Backspace}');
+  expect(ref.current?.checkValidity()).toBe(true); // Half-typed segments leave the range as it was
+
+  // The popover's draft is what apply() commits while it is open.
+  await user.click(screen.getByRole('button', { name: 'Open calendar' }));
+  await user.click(screen.getByRole('button', { name: 'Sunday, March 3rd, 2024' }));
+  await user.click(screen.getByRole('button', { name: 'Monday, March 4th, 2024' }));
+  expect(ref.current?.dirty).toBe(true);
+  let applied: boolean | undefined;
+  act(() => { applied = ref.current?.apply(); });
+  expect(applied).toBe(true);
+  expect(onApply).toHaveBeenCalledTimes(1);
+  expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  expect(ref.current?.dirty).toBe(false);
+  expect(ref.current?.value).toEqual(onApply.mock.calls[0][0]);
+});
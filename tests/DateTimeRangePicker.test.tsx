@@ -1,7 +1,10 @@
-import { render, screen, fireEvent } from '@testing-library/react';
+import { createRef } from 'react';
+import { render, screen, fireEvent, within, act } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
-import DateTimeRangePicker from '../src/DateTimeRangePicker';
+import { ar } from 'date-fns/locale';
+import DateTimeRangePicker, { DateTimeRangePickerHandle } from '../src/DateTimeRangePicker';
 import { DateTimeRange } from '../src/types';
+import { createMemoryAdapter } from '../src/useRangeSync';
 
 const mockValue: DateTimeRange = {
   start: null,
@@ -19,18 +22,317 @@ test('keyboard navigation selects date', async () => {
   const mockOnChange = jest.fn();
   render(<DateTimeRangePicker value={mockValue} onChange={mockOnChange} />);
   const grid = screen.getByRole('grid');
-  await user.tab();
-  expect(grid).toHaveFocus();
+  // One roving tab stop in the grid, reached after the zone, comparison and month controls.
+  const tabStops = grid.querySelectorAll<HTMLElement>('[tabindex="0"]');
+  expect(tabStops).toHaveLength(1);
+  const day = tabStops[0]!;
+  for (let stops = 0; stops < 20 && document.activeElement !== day; stops++) await user.tab();
+  expect(day).toHaveFocus();
   await user.keyboard('{Enter}');
   expect(mockOnChange).toHaveBeenCalled();
 });
 
 test('validates constraints', () => {
   const constraints = { min: new Date('2023-01-01') };
-  render(<DateTimeRangePicker value={mockValue} onChange={() => {}} constraints={constraints} />);
+  // Open on December 2022, so the 1st falls before min
+  render(<DateTimeRangePicker value={mockValue} onChange={() => {}} constraints={constraints} now={() => new Date('2022-12-15T12:00:00Z')} />);
   // Assume a date before min is disabled
   const disabledButton = screen.getByText('1'); // Example
   expect(disabledButton).toBeDisabled();
 });
 
-// Add more tests for a11y, DST, etc.
\ No newline at end of file
+test('months renders adjacent months and previews the pending range on hover', () => {
+  render(<DateTimeRangePicker value={{ ...mockValue, start: new Date() }} onChange={() => {}} months={2} />);
+  const grids = screen.getAllByRole('grid');
+  expect(grids).toHaveLength(2);
+  const target = within(grids[1]!).getByText('10');
+  fireEvent.mouseEnter(target);
+  expect(target).toHaveAttribute('data-preview', 'true');
+  expect(within(grids[1]!).getByText('11')).not.toHaveAttribute('data-preview');
+});
+
+test('locale switches direction, clock and labels', () => {
+  const { container } = render(
+    <DateTimeRangePicker value={mockValue} onChange={() => {}} locale={ar} messages={{ apply: 'تطبيق' }} hourCycle={12} />
+  );
+  expect(container.firstChild).toHaveAttribute('dir', 'rtl');
+  expect(screen.getByText('تطبيق')).toBeInTheDocument();
+  expect(screen.getAllByRole('combobox', { name: /AM\/PM/ })).toHaveLength(2);
+});
+
+// Add more tests for a11y, DST, etc.
+test('time fields show the value in its timezone and never read bad input as zero', async () => {
+  const user = userEvent.setup();
+  const onChange = jest.fn();
+  const value: DateTimeRange = {
+    start: new Date('2024-03-01T14:05:09.250Z'), // 09:05:09.250 EST
+    end: new Date('2024-03-01T22:30:00Z'),
+    timezone: 'America/New_York',
+  };
+  render(<DateTimeRangePicker value={value} onChange={onChange} timePrecision="millisecond" />);
+  const start = within(screen.getByRole('group', { name: 'Start Time' }));
+  expect(start.getByRole('spinbutton', { name: 'Start Time hour' })).toHaveValue('09');
+  expect(start.getByRole('spinbutton', { name: 'Start Time second' })).toHaveValue('09');
+  expect(start.getByRole('spinbutton', { name: 'Start Time millisecond' })).toHaveValue('250');
+
+  const minute = start.getByRole('spinbutton', { name: 'Start Time minute' });
+  await user.clear(minute);
+  await user.type(minute, 'x');
+  expect(onChange).not.toHaveBeenCalled();
+  expect(minute).toHaveValue('x');
+  expect(minute).toHaveAttribute('aria-invalid', 'true');
+  await user.tab();
+  expect(minute).toHaveValue('05');
+});
+
+test('the time slot list sets a time on the chosen step', async () => {
+  const user = userEvent.setup();
+  const onChange = jest.fn();
+  const value: DateTimeRange = {
+    start: new Date('2024-03-01T14:05:00Z'),
+    end: new Date('2024-03-01T22:30:00Z'),
+    timezone: 'America/New_York',
+  };
+  render(<DateTimeRangePicker value={value} onChange={onChange} timeSlotInterval={30} />);
+  const slots = screen.getByRole('listbox', { name: 'End Time: Time slots' });
+  expect(within(slots).getByRole('option', { name: '17:30' })).toHaveAttribute('aria-selected', 'true');
+  await user.click(within(slots).getByRole('option', { name: '18:00' }));
+  expect(onChange).toHaveBeenLastCalledWith({ ...value, end: new Date('2024-03-01T23:00:00Z'), relative: undefined });
+});
+
+test('commitMode="apply" keeps edits in a draft until Apply and Cancel reverts them', async () => {
+  const user = userEvent.setup();
+  const onChange = jest.fn();
+  const onApply = jest.fn();
+  const onDirtyChange = jest.fn();
+  const ref = createRef<DateTimeRangePickerHandle>();
+  render(
+    <DateTimeRangePicker ref={ref} defaultValue={mockValue} onChange={onChange} onApply={onApply} onDirtyChange={onDirtyChange}
+      commitMode="apply" now={() => new Date('2024-03-05T17:00:00Z')} />
+  );
+  const grid = screen.getByRole('grid');
+  await user.click(within(grid).getByText('10'));
+  expect(screen.getByText('Unsaved changes')).toBeInTheDocument();
+  expect(onDirtyChange).toHaveBeenLastCalledWith(true);
+  expect(ref.current?.dirty).toBe(true);
+
+  await user.click(screen.getByRole('button', { name: 'Cancel' }));
+  expect(screen.queryByText('Unsaved changes')).not.toBeInTheDocument();
+  expect(onDirtyChange).toHaveBeenLastCalledWith(false);
+
+  await user.click(within(grid).getByText('10'));
+  await user.click(within(grid).getByText('12'));
+  act(() => ref.current?.reset());
+  expect(ref.current?.dirty).toBe(false);
+  await user.click(within(grid).getByText('10'));
+  await user.click(within(grid).getByText('12'));
+  expect(onChange).not.toHaveBeenCalled();
+
+  let applied: boolean | undefined;
+  act(() => { applied = ref.current?.apply(); });
+  expect(applied).toBe(true);
+  expect(onChange).toHaveBeenCalledTimes(1);
+  const committed = onChange.mock.calls[0][0] as DateTimeRange;
+  expect(onApply).toHaveBeenCalledWith(committed);
+  expect(committed.start).toEqual(new Date('2024-03-10T16:00:00Z')); // The day's noon marker
+  expect(ref.current?.dirty).toBe(false);
+});
+
+test('the calendar follows the APG date grid keyboard model and announces the selection', async () => {
+  const user = userEvent.setup();
+  const onChange = jest.fn();
+  const value: DateTimeRange = { ...mockValue, start: new Date('2024-03-10T16:00:00Z') };
+  render(<DateTimeRangePicker value={value} onChange={onChange} now={() => new Date('2024-03-05T17:00:00Z')} />);
+  const grid = screen.getByRole('grid', { name: 'March 2024' });
+  expect(within(grid).getAllByRole('row')).toHaveLength(6); // Weekday names and five weeks
+  expect(within(grid).getByRole('columnheader', { name: 'Monday' })).toBeInTheDocument();
+  const start = within(grid).getByRole('button', { name: 'Sunday, March 10th, 2024' });
+  expect(start.closest('[role="gridcell"]')).toHaveAttribute('aria-selected', 'true');
+  expect(within(grid).getAllByRole('button').filter(button => button.tabIndex === 0)).toEqual([start]);
+  expect(screen.getByRole('status')).toHaveTextContent('Start March 10th, 2024 at 12:00 PM selected; choose an end date');
+
+  act(() => start.focus());
+  await user.keyboard('{ArrowRight}{End}');
+  expect(screen.getByRole('button', { name: 'Sunday, March 17th, 2024' })).toHaveFocus();
+  await user.keyboard('{Home}');
+  expect(screen.getByRole('button', { name: 'Monday, March 11th, 2024' })).toHaveFocus();
+  // Moving past the month shows the month with the focused day.
+  await user.keyboard('{PageDown}');
+  expect(screen.getByRole('grid', { name: 'April 2024' })).toContainElement(screen.getByRole('button', { name: 'Thursday, April 11th, 2024' }));
+  expect(screen.getByRole('button', { name: 'Thursday, April 11th, 2024' })).toHaveFocus();
+  await user.keyboard('{Shift>}{PageUp}{/Shift}');
+  expect(screen.getByRole('button', { name: 'Tuesday, April 11th, 2023' })).toHaveFocus();
+  await user.keyboard('{ArrowUp}{ArrowUp}{ArrowUp}{ArrowUp}{ArrowUp}{ArrowUp}');
+  expect(screen.getByRole('button', { name: 'Tuesday, February 28th, 2023' })).toHaveFocus();
+  await user.keyboard(' ');
+  expect(onChange).toHaveBeenCalledTimes(1);
+});
+
+test('the grid keys skip disabled days', async () => {
+  const user = userEvent.setup();
+  const constraints = { blackouts: [new Date('2024-03-06T17:00:00Z'), new Date('2024-03-07T17:00:00Z')] };
+  render(<DateTimeRangePicker value={mockValue} onChange={() => {}} constraints={constraints} now={() => new Date('2024-03-05T17:00:00Z')} />);
+  expect(screen.getByRole('button', { name: 'Wednesday, March 6th, 2024' })).toBeDisabled();
+  act(() => screen.getByRole('button', { name: 'Tuesday, March 5th, 2024' }).focus());
+  await user.keyboard('{ArrowRight}');
+  expect(screen.getByRole('button', { name: 'Friday, March 8th, 2024' })).toHaveFocus();
+  await user.keyboard('{ArrowLeft}');
+  expect(screen.getByRole('button', { name: 'Tuesday, March 5th, 2024' })).toHaveFocus();
+});
+
+test('theme, classNames and renderDay customise the parts without replacing them', () => {
+  const value: DateTimeRange = { ...mockValue, start: new Date('2024-03-10T16:00:00Z') };
+  const { container } = render(
+    <DateTimeRangePicker
+      value={value}
+      onChange={() => {}}
+      now={() => new Date('2024-03-05T17:00:00Z')}
+      presets={[{ label: 'Last 24 hours', relative: { start: 'now-24h', end: 'now' } }]}
+      theme="dark"
+      classNames={{ root: 'brand', header: 'brand-header', presetChip: 'brand-chip', dayCell: 'brand-day', timeInput: 'brand-time', footer: 'brand-footer' }}
+      renderDay={(day, content) => <>{content}{day.isStart && <span aria-hidden="true">★</span>}</>}
+    />
+  );
+  const root = container.firstChild as HTMLElement;
+  expect(root).toHaveAttribute('data-theme', 'dark');
+  expect(root).toHaveClass('dtrp', 'brand', 'bg-picker-surface');
+  expect(screen.getByRole('button', { name: 'Last 24 hours' })).toHaveClass('brand-chip', 'border-picker-border');
+  expect(container.querySelectorAll('.brand-header, .brand-footer')).toHaveLength(2);
+  expect(container.querySelectorAll('.brand-time')).toHaveLength(2);
+  const start = screen.getByRole('button', { name: 'Sunday, March 10th, 2024' });
+  expect(start).toHaveClass('brand-day', 'bg-picker-accent');
+  expect(start).toHaveAttribute('data-start', 'true');
+  expect(start).toHaveTextContent('10★');
+  expect(screen.getByRole('button', { name: 'Monday, March 11th, 2024' })).toHaveTextContent(/^11$/);
+});
+
+test('saves the current range as a preset and lists applied ranges under Recent', async () => {
+  const user = userEvent.setup();
+  const presetStorage = createMemoryAdapter();
+  const value: DateTimeRange = { start: new Date('2024-03-01T14:00:00Z'), end: new Date('2024-03-01T22:00:00Z'), timezone: 'America/New_York' };
+  const onChange = jest.fn();
+  render(<DateTimeRangePicker value={value} onChange={onChange} presetStorage={presetStorage} now={() => new Date('2024-03-05T17:00:00Z')} />);
+
+  await user.click(screen.getByRole('button', { name: 'Save current range' }));
+  await user.type(screen.getByRole('textbox', { name: 'Preset name' }), 'Workday{Enter}');
+  const saved = screen.getByRole('list', { name: 'Saved' });
+  expect(within(saved).getByRole('button', { name: 'Workday' })).toBeInTheDocument();
+
+  await user.click(within(saved).getByRole('button', { name: 'Rename Workday' }));
+  await user.clear(screen.getByRole('textbox', { name: 'Preset name' }));
+  await user.type(screen.getByRole('textbox', { name: 'Preset name' }), 'Office{Enter}');
+  expect(JSON.parse(presetStorage.read() ?? '{}').presets[0].label).toBe('Office');
+
+  await user.click(screen.getByRole('button', { name: 'Apply' }));
+  const recent = screen.getByRole('list', { name: 'Recent' });
+  expect(within(recent).getAllByRole('button')).toHaveLength(1);
+
+  await user.click(within(saved).getByRole('button', { name: 'Office' }));
+  expect(onChange).toHaveBeenLastCalledWith({ ...value, relative: undefined });
+  await user.click(within(saved).getByRole('button', { name: 'Delete Office' }));
+  expect(screen.queryByRole('list', { name: 'Saved' })).not.toBeInTheDocument();
+});
+
+test('the header sums up the range with its zone and duration', () => {
+  const value: DateTimeRange = { start: new Date('2024-03-01T14:00:00Z'), end: new Date('2024-03-02T22:30:00Z'), timezone: 'America/New_York' };
+  render(<DateTimeRangePicker value={value} onChange={() => {}} />);
+  expect(screen.getByText('Mar 1 – 2, 2024, 9:00 AM – 5:30 PM EST (1 day 8 hours)')).toBeInTheDocument();
+});
+
+test('takes part in native forms: hidden inputs, required, custom validity and reset', async () => {
+  const user = userEvent.setup();
+  const ref = createRef<DateTimeRangePickerHandle>();
+  const { container } = render(
+    <form>
+      <DateTimeRangePicker ref={ref} name="range" required defaultValue={mockValue} formValueFormat="offset"
+        constraints={{ maxDuration: 24 * 60 * 60 * 1000 }} now={() => new Date('2024-03-05T17:00:00Z')} />
+    </form>
+  );
+  const form = container.querySelector('form') as HTMLFormElement;
+  expect(form.checkValidity()).toBe(false);
+  expect(ref.current?.checkValidity()).toBe(false);
+
+  const grid = screen.getByRole('grid');
+  await user.click(within(grid).getByText('10'));
+  expect(ref.current?.validationMessage).toBe('Choose both a start and an end');
+  await user.click(within(grid).getByText('12'));
+  expect(form.checkValidity()).toBe(false);
+  expect(ref.current?.validationMessage).toBe('Duration must be at most 1440 minutes');
+
+  await user.click(within(grid).getByText('11'));
+  await user.click(within(grid).getByText('12'));
+  expect(form.checkValidity()).toBe(true);
+  expect(Object.fromEntries(new FormData(form))).toEqual({ // Days are picked at their noon
+    'range[start]': '2024-03-11T12:00:00-04:00',
+    'range[end]': '2024-03-12T12:00:00-04:00',
+    'range[timezone]': 'America/New_York',
+  });
+
+  act(() => form.reset());
+  expect(ref.current?.value).toEqual(mockValue);
+  expect(form.checkValidity()).toBe(false);
+});
+
+test('with commitMode="apply" the form checks the committed range, not the draft', async () => {
+  const user = userEvent.setup();
+  const ref = createRef<DateTimeRangePickerHandle>();
+  const tooLong: DateTimeRange = { start: new Date('2024-03-10T16:00:00Z'), end: new Date('2024-03-13T16:00:00Z'), timezone: 'America/New_York' };
+  const { container } = render(
+    <form>
+      <DateTimeRangePicker ref={ref} name="range" defaultValue={tooLong} commitMode="apply"
+        constraints={{ maxDuration: 24 * 60 * 60 * 1000 }} now={() => new Date('2024-03-05T17:00:00Z')} />
+    </form>
+  );
+  const form = container.querySelector('form') as HTMLFormElement;
+  const grid = screen.getByRole('grid');
+  expect(form.checkValidity()).toBe(false);
+
+  // A valid draft doesn't make the submitted range valid until it is applied.
+  await user.click(within(grid).getByText('11'));
+  await user.click(within(grid).getByText('12'));
+  expect(form.checkValidity()).toBe(false);
+  expect(ref.current?.validationMessage).toBe('Duration must be at most 1440 minutes');
+  await user.click(screen.getByRole('button', { name: 'Apply' }));
+  expect(form.checkValidity()).toBe(true);
+
+  // Nor does an invalid draft block it.
+  await user.click(within(grid).getByText('10'));
+  await user.click(within(grid).getByText('13'));
+  expect(form.checkValidity()).toBe(true);
+  expect(ref.current?.validationMessage).toBe('');
+});
+
+test('the timeline drags out a range, nudges its handles and stays in sync with the time fields', async () => {
+  const user = userEvent.setup();
+  const onChange = jest.fn();
+  // Tuesday Mar 12, 22:15 → Wednesday 03:40 in New York; the timeline shows Tuesday to Thursday.
+  const value: DateTimeRange = { start: new Date('2024-03-13T02:15:00Z'), end: new Date('2024-03-13T07:40:00Z'), timezone: 'America/New_York' };
+  const { rerender } = render(<DateTimeRangePicker value={value} onChange={onChange} timeline timelineStep={15}
+    constraints={{ blackoutIntervals: [{ start: new Date('2024-03-13T13:00:00Z'), end: new Date('2024-03-13T15:00:00Z') }] }} />);
+  await user.click(screen.getByRole('button', { name: 'Timeline' }));
+  const timeline = screen.getByRole('group', { name: 'Timeline' });
+  expect(within(timeline).getByText('Tue 12')).toBeInTheDocument();
+  expect(within(timeline).getByText('Thu 14')).toBeInTheDocument();
+
+  const end = within(timeline).getByRole('slider', { name: 'End Time' });
+  expect(end).toHaveAttribute('aria-valuetext', 'Wed Mar 13, 03:40');
+  act(() => end.focus());
+  await user.keyboard('{ArrowRight}');
+  expect(onChange).toHaveBeenLastCalledWith({ ...value, end: new Date('2024-03-13T07:45:00Z'), relative: undefined });
+  await user.keyboard('{PageDown}');
+  expect(onChange).toHaveBeenLastCalledWith({ ...value, end: new Date('2024-03-13T07:00:00Z'), relative: undefined });
+
+  // Typing a time moves the handle.
+  rerender(<DateTimeRangePicker value={{ ...value, end: new Date('2024-03-13T08:00:00Z') }} onChange={onChange} timeline />);
+  expect(within(timeline).getByRole('slider', { name: 'End Time' })).toHaveAttribute('aria-valuetext', 'Wed Mar 13, 04:00');
+
+  // 72 hours across 720px: 10px an hour. Dragging from 10px to 45px gives 01:00 to 04:30 on Tuesday.
+  const track = within(timeline).getByRole('slider', { name: 'Start Time' }).parentElement as HTMLElement;
+  // jsdom has no PointerEvent; a MouseEvent carries the button and coordinates.
+  if (!('PointerEvent' in window)) Object.assign(window, { PointerEvent: class extends MouseEvent {} });
+  track.getBoundingClientRect = () => ({ left: 0, right: 720, width: 720, top: 0, bottom: 40, height: 40, x: 0, y: 0, toJSON: () => ({}) });
+  fireEvent.pointerDown(track, { button: 0, clientX: 10, pointerId: 1 });
+  fireEvent.pointerMove(track, { clientX: 45, pointerId: 1 });
+  fireEvent.pointerUp(track, { clientX: 45, pointerId: 1 });
+  expect(onChange).toHaveBeenLastCalledWith({ ...value, start: new Date('2024-03-12T05:00:00Z'), end: new Date('2024-03-12T08:30:00Z'), relative: undefined });
+});
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import MultiRangePicker from '../src/MultiRangePicker';
+import { MultiDateTimeRange } from '../src/types';
+
+const Harness = ({ initial, onChange }: { initial: MultiDateTimeRange; onChange: (value: MultiDateTimeRange) => void }) => {
+  const [value, setValue] = useState(initial);
+  return (
+    <MultiRangePicker
+      value={value}
+      onChange={(next) => {
+        setValue(next);
+        onChange(next);
+      }}
+      now={() => new Date('2024-03-05T17:00:00Z')}
+    />
+  );
+};
+
+const day = (name: string) => screen.getByRole('button', { name });
+const span = (start: string, end: string) => ({ start: new Date(start), end: new Date(end) });
+const lastRanges = (onChange: jest.Mock) => onChange.mock.calls.at(-1)?.[0].ranges;
+
+// Day clicks pick noon in the zone, so each range runs from noon to noon.
+const value: MultiDateTimeRange = {
+  ranges: [span('2024-03-01T17:00:00Z', '2024-03-02T17:00:00Z')],
+  timezone: 'America/New_York',
+};
+
+test('each range drawn is added, including the one after a range just added', async () => {
+  const user = userEvent.setup();
+  const onChange = jest.fn();
+  render(<Harness initial={value} onChange={onChange} />);
+  await user.click(day('Wednesday, March 6th, 2024'));
+  await user.click(day('Thursday, March 7th, 2024'));
+  await user.click(day('Wednesday, March 20th, 2024'));
+  await user.click(day('Thursday, March 21st, 2024'));
+  expect(lastRanges(onChange)).toEqual([
+    span('2024-03-01T17:00:00Z', '2024-03-02T17:00:00Z'),
+    span('2024-03-06T17:00:00Z', '2024-03-07T17:00:00Z'),
+    span('2024-03-20T16:00:00Z', '2024-03-21T16:00:00Z'),
+  ]);
+  expect(within(screen.getByRole('list', { name: 'Selected ranges' })).getAllByRole('button', { name: 'Remove range' })).toHaveLength(3);
+});
+
+test('a picked chip is replaced by the next range drawn, and can be removed', async () => {
+  const user = userEvent.setup();
+  const onChange = jest.fn();
+  const two = { ...value, ranges: [...value.ranges, span('2024-03-06T17:00:00Z', '2024-03-07T17:00:00Z')] };
+  render(<Harness initial={two} onChange={onChange} />);
+  const list = within(screen.getByRole('list', { name: 'Selected ranges' }));
+  const [first] = list.getAllByRole('button', { pressed: false });
+  await user.click(first!);
+  expect(first).toHaveAttribute('aria-pressed', 'true');
+  await user.click(day('Wednesday, March 20th, 2024'));
+  await user.click(day('Thursday, March 21st, 2024'));
+  expect(lastRanges(onChange)).toEqual([span('2024-03-06T17:00:00Z', '2024-03-07T17:00:00Z'), span('2024-03-20T16:00:00Z', '2024-03-21T16:00:00Z')]);
+
+  await user.click(list.getAllByRole('button', { name: 'Remove range' })[0]!);
+  expect(lastRanges(onChange)).toEqual([span('2024-03-20T16:00:00Z', '2024-03-21T16:00:00Z')]);
+});
+
+test('a range overlapping another is merged with it', async () => {
+  const user = userEvent.setup();
+  const onChange = jest.fn();
+  render(<Harness initial={{ ...value, ranges: [span('2024-03-04T17:00:00Z', '2024-03-06T17:00:00Z')] }} onChange={onChange} />);
+  // Started outside the range, so the second click extends the new range instead of picking the old one.
+  await user.click(day('Friday, March 8th, 2024'));
+  await user.click(day('Tuesday, March 5th, 2024'));
+  expect(lastRanges(onChange)).toEqual([span('2024-03-04T17:00:00Z', '2024-03-08T17:00:00Z')]);
+});
+
+test('changing the zone moves every range by the picked mode', async () => {
+  const user = userEvent.setup();
+  const onChange = jest.fn();
+  render(<Harness initial={value} onChange={onChange} />);
+  const zone = screen.getByLabelText('Timezone');
+  await user.selectOptions(zone, 'Europe/London');
+  expect(onChange).toHaveBeenLastCalledWith({ ranges: value.ranges, timezone: 'Europe/London' });
+
+  // No range is active here, so nothing else tells which way the ranges should move.
+  await user.click(screen.getByLabelText('Keep wall-clock time when changing zone'));
+  await user.selectOptions(zone, 'Asia/Tokyo');
+  expect(onChange).toHaveBeenLastCalledWith({ ranges: [span('2024-03-01T08:00:00Z', '2024-03-02T08:00:00Z')], timezone: 'Asia/Tokyo' });
+});
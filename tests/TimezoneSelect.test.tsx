@@ -0,0 +1,22 @@
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import TimezoneSelect from '../src/TimezoneSelect';
+
+const timezones = ['UTC', 'America/New_York', 'Europe/London', 'Asia/Tokyo'];
+
+test('labels the zones at the injected clock and filters them by the search', async () => {
+  const user = userEvent.setup();
+  render(<TimezoneSelect value="UTC" onChange={() => {}} timezones={timezones} now={() => new Date('2024-07-01T12:00:00Z')} />);
+  const select = screen.getByRole('combobox');
+  expect(within(select).getByRole('option', { name: 'America/New York (UTC−04:00, EDT)' })).toBeInTheDocument();
+
+  await user.type(screen.getByRole('searchbox'), 'new york');
+  expect(within(select).getAllByRole('option').map(option => option.getAttribute('value'))).toEqual(['UTC', 'America/New_York']);
+});
+
+test('each instance gets its own id for the search to point at', () => {
+  render(<><TimezoneSelect value="UTC" onChange={() => {}} timezones={timezones} /><TimezoneSelect value="UTC" onChange={() => {}} timezones={timezones} /></>);
+  const [first, second] = screen.getAllByRole('combobox');
+  expect(first?.id).not.toBe(second?.id);
+  expect(screen.getAllByRole('searchbox').map(search => search.getAttribute('aria-controls'))).toEqual([first?.id, second?.id]);
+});
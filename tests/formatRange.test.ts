@@ -0,0 +1,37 @@
+import { de, enUS } from 'date-fns/locale';
+import { formatHumanDuration, formatRange } from '../src/formatRange';
+
+const range = (start: string, end: string, timezone: string) => ({ start: new Date(start), end: new Date(end), timezone });
+// Intl puts thin and narrow no-break spaces around dashes and before AM/PM, depending on the ICU version.
+const plain = (text: string) => text.replace(/\s/g, ' ');
+
+test('formatRange writes the parts both ends share once', () => {
+  expect(plain(formatRange(range('2024-01-03T14:00:00Z', '2024-01-05T22:00:00Z', 'America/New_York'), { locale: enUS })))
+    .toBe('Jan 3 – 5, 2024, 9:00 AM – 5:00 PM EST');
+  expect(plain(formatRange(range('2024-03-02T13:00:00Z', '2024-03-02T15:30:00Z', 'Europe/Berlin'), { hourCycle: 24 })))
+    .toBe('Mar 2, 2024, 14:00 – 16:30 (UTC+01:00)');
+  expect(plain(formatRange(range('2023-12-30T05:00:00Z', '2024-01-02T05:00:00Z', 'America/New_York'))))
+    .toBe('Dec 30, 2023 – Jan 1, 2024 EST');
+});
+
+test('formatRange uses the 12h clock of en-US unless a locale or hourCycle says otherwise', () => {
+  const afternoon = range('2024-03-02T13:00:00Z', '2024-03-02T15:30:00Z', 'UTC');
+  expect(plain(formatRange(afternoon, { timezone: false }))).toBe('Mar 2, 2024, 1:00 – 3:30 PM');
+  expect(plain(formatRange(afternoon, { timezone: false, locale: de }))).toBe('2. März 2024, 13:00–15:30 Uhr');
+  expect(plain(formatRange(afternoon, { timezone: false, hourCycle: 24 }))).toBe('Mar 2, 2024, 13:00 – 15:30');
+});
+
+test('formatRange styles add or drop the year, weekday, zone and duration', () => {
+  const month = range('2024-03-01T05:00:00Z', '2024-04-01T03:59:00Z', 'America/New_York');
+  expect(plain(formatRange(month, { style: 'short' }))).toBe('Mar 1 – 31');
+  expect(plain(formatRange(month, { style: 'long', locale: enUS }))).toBe('Fri, March 1 – Sun, March 31, 2024 (EST – EDT) (30 days 22 hours)');
+  expect(plain(formatRange(range('2024-03-02T13:00:00Z', '2024-03-02T15:30:00Z', 'Europe/Berlin'), { style: 'long', locale: de, timezone: false })))
+    .toBe('Sa., 2. März 2024, 14:00–16:30 Uhr (2 Stunden 30 Minuten)');
+});
+
+test('formatHumanDuration keeps the largest units', () => {
+  expect(formatHumanDuration((2 * 24 * 60 + 6 * 60 + 20) * 60 * 1000)).toBe('2 days 6 hours');
+  expect(formatHumanDuration((24 * 60 + 5) * 60 * 1000, { maxUnits: 3 })).toBe('1 day 5 minutes');
+  expect(formatHumanDuration(45 * 1000, { locale: de })).toBe('45 Sekunden');
+  expect(formatHumanDuration(0)).toBe('0 minutes');
+});
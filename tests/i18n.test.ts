@@ -0,0 +1,27 @@
+import { ar, de, enUS, ja } from 'date-fns/locale';
+import { defaultMessages, getErrorMessage, getHourCycle, getTextDirection, getWeekDayLabels } from '../src/i18n';
+import { validateRange } from '../src/utils';
+
+test('getWeekDayLabels follows the locale and the first day of the week', () => {
+  expect(getWeekDayLabels(undefined, 1)).toEqual(['M', 'T', 'W', 'T', 'F', 'S', 'S']);
+  expect(getWeekDayLabels(enUS, 0)[0]).toBe('S');
+  expect(getWeekDayLabels(de, 1)).toEqual(['M', 'D', 'M', 'D', 'F', 'S', 'S']);
+  expect(getWeekDayLabels(ja, 0)[0]).toBe('日');
+});
+
+test('locales determine text direction and clock', () => {
+  expect(getTextDirection(ar)).toBe('rtl');
+  expect(getTextDirection(de)).toBe('ltr');
+  expect(getHourCycle(enUS)).toBe(12);
+  expect(getHourCycle(de)).toBe(24);
+});
+
+test('getErrorMessage uses translated messages', () => {
+  const messages = { ...defaultMessages, minDuration: (minutes: number) => `Mindestens ${minutes} Minuten` };
+  const start = new Date('2024-03-01T10:00:00Z');
+  const end = new Date('2024-03-01T10:30:00Z');
+  const [error] = validateRange(start, end, { minDuration: 60 * 60 * 1000 }, 'UTC');
+  expect(error && getErrorMessage(error, messages)).toBe('Mindestens 60 Minuten');
+  expect(getErrorMessage({ code: 'booked', field: 'range', params: {}, message: 'Already booked' })).toBe('Already booked');
+  expect(getErrorMessage({ code: 'booked', field: 'range', params: {} })).toBe('This range is not available');
+});
@@ -0,0 +1,33 @@
+import { parseRangeText } from '../src/utils';
+
+const now = new Date('2024-03-06T15:30:00Z'); // Wednesday, 10:30 in New York
+
+test('parseRangeText handles rolling ranges', () => {
+  const range = parseRangeText('last 7 days', 'America/New_York', now);
+  expect(range?.end).toEqual(now);
+  expect(range?.start).toEqual(new Date('2024-02-28T15:30:00Z'));
+  expect(range?.relative).toEqual({ start: 'now-7d', end: 'now' });
+});
+
+test('parseRangeText keeps a bare end time on the start day', () => {
+  const range = parseRangeText('yesterday 9am to 5pm', 'America/New_York', now);
+  expect(range?.start).toEqual(new Date('2024-03-05T14:00:00Z'));
+  expect(range?.end).toEqual(new Date('2024-03-05T22:00:00Z'));
+});
+
+test('parseRangeText reads explicit dates in the given timezone', () => {
+  const range = parseRangeText('2024-03-01 14:00 – 2024-03-02', 'Asia/Tokyo', now);
+  expect(range?.start).toEqual(new Date('2024-03-01T05:00:00Z'));
+  expect(range?.end).toEqual(new Date('2024-03-02T14:59:59.999Z'));
+});
+
+test('parseRangeText resolves "since" to the most recent weekday', () => {
+  const range = parseRangeText('since Monday', 'America/New_York', now);
+  expect(range?.start).toEqual(new Date('2024-03-04T05:00:00Z'));
+  expect(range?.end).toEqual(now);
+});
+
+test('parseRangeText rejects text it does not understand', () => {
+  expect(parseRangeText('next fortnight-ish', 'UTC', now)).toBeNull();
+  expect(parseRangeText('2024-02-30', 'UTC', now)).toBeNull();
+});
@@ -0,0 +1,47 @@
+import { isRelativeTime, resolveRelativeRange, resolveRelativeTime } from '../src/relative';
+
+const now = new Date('2024-03-13T15:30:00Z'); // Wednesday, 11:30 EDT in New York
+
+test('resolveRelativeTime applies offsets and snaps in order', () => {
+  const tz = 'America/New_York';
+  expect(resolveRelativeTime('now', now, tz)).toEqual(now);
+  expect(resolveRelativeTime('now-24h', now, tz)).toEqual(new Date('2024-03-12T15:30:00Z'));
+  expect(resolveRelativeTime('now/d', now, tz)).toEqual(new Date('2024-03-13T04:00:00Z'));
+  expect(resolveRelativeTime('now/w', now, tz)).toEqual(new Date('2024-03-11T04:00:00Z')); // Monday
+  expect(resolveRelativeTime('now/w', now, tz, 0)).toEqual(new Date('2024-03-10T05:00:00Z')); // Sunday, still EST
+  expect(resolveRelativeTime('now-1M/M', now, tz)).toEqual(new Date('2024-02-01T05:00:00Z'));
+  expect(resolveRelativeTime('now/d+9h', now, tz)).toEqual(new Date('2024-03-13T13:00:00Z'));
+});
+
+test('day offsets follow the wall clock across DST while hours stay exact', () => {
+  const tz = 'America/New_York';
+  // DST started on Mar 10, so one calendar day before 11:30 EDT is 11:30 EST: 23 hours earlier.
+  const afterChange = new Date('2024-03-10T15:30:00Z');
+  expect(resolveRelativeTime('now-1d', afterChange, tz)).toEqual(new Date('2024-03-09T16:30:00Z'));
+  expect(resolveRelativeTime('now-24h', afterChange, tz)).toEqual(new Date('2024-03-09T15:30:00Z'));
+});
+
+test('isRelativeTime rejects anything but now-based expressions', () => {
+  expect(isRelativeTime('now-7d/d')).toBe(true);
+  expect(isRelativeTime('now-7x')).toBe(false);
+  expect(isRelativeTime('yesterday')).toBe(false);
+  expect(resolveRelativeTime('now+', now, 'UTC')).toBeNull();
+});
+
+test('resolveRelativeRange rolls forward and keeps a derived comparison in step', () => {
+  const range = {
+    start: null,
+    end: null,
+    timezone: 'UTC',
+    relative: { start: 'now-24h', end: 'now' },
+    comparison: { mode: 'previousPeriod' as const, start: null, end: null },
+  };
+  expect(resolveRelativeRange(range, now)).toEqual({
+    ...range,
+    start: new Date('2024-03-12T15:30:00Z'),
+    end: now,
+    comparison: { mode: 'previousPeriod', start: new Date('2024-03-11T15:30:00Z'), end: new Date('2024-03-12T15:30:00Z') },
+  });
+  const fixed = { start: now, end: now, timezone: 'UTC' };
+  expect(resolveRelativeRange(fixed, now)).toBe(fixed);
+});
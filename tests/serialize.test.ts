@@ -0,0 +1,54 @@
+import { parseCompactRange, parseIsoInterval, toCompactRange, toIsoInterval } from '../src/serialize';
+import { DateTimeRange } from '../src/types';
+
+const range: DateTimeRange = {
+  start: new Date('2024-03-01T14:00:00Z'),
+  end: new Date('2024-03-01T22:30:00Z'),
+  timezone: 'America/New_York',
+};
+
+test('toIsoInterval writes start/end and start/duration forms with the zone', () => {
+  expect(toIsoInterval(range)).toBe('2024-03-01T09:00:00-05:00/2024-03-01T17:30:00-05:00[America/New_York]');
+  expect(toIsoInterval(range, { duration: true })).toBe('2024-03-01T09:00:00-05:00/PT8H30M[America/New_York]');
+  expect(toIsoInterval({ ...range, end: null })).toBe('2024-03-01T09:00:00-05:00/..[America/New_York]');
+});
+
+test('parseIsoInterval round-trips both forms', () => {
+  expect(parseIsoInterval(toIsoInterval(range))).toEqual(range);
+  expect(parseIsoInterval(toIsoInterval(range, { duration: true }))).toEqual(range);
+  expect(parseIsoInterval('2024-03-01T14:00:00Z/P1DT2H', 'Asia/Tokyo')).toEqual({
+    start: new Date('2024-03-01T14:00:00Z'),
+    end: new Date('2024-03-02T16:00:00Z'),
+    timezone: 'Asia/Tokyo',
+  });
+});
+
+test('parseIsoInterval rejects malformed input', () => {
+  expect(parseIsoInterval('2024-03-01/2024-03-02')).toBeNull();
+  expect(parseIsoInterval('2024-03-01T14:00:00Z/P')).toBeNull();
+  expect(parseIsoInterval('2024-03-01T14:00:00Z/PT1H[Not/AZone]')).toBeNull();
+  expect(parseIsoInterval('2024-02-30T10:00:00Z/2024-03-02T10:00:00Z')).toBeNull();
+  expect(parseIsoInterval('2023-02-29T10:00:00+01:00/..')).toBeNull();
+  expect(parseIsoInterval('2024-02-29T10:00:00+01:00/..')).not.toBeNull();
+});
+
+test('compact form round-trips and stays URL-safe', () => {
+  const etc = { ...range, timezone: 'Etc/GMT+5' };
+  const text = toCompactRange(etc);
+  expect(new URLSearchParams({ range: text }).toString()).toBe(`range=${text}`);
+  expect(parseCompactRange(text)).toEqual(etc);
+  expect(parseCompactRange(toCompactRange({ ...range, end: null }))).toEqual({ ...range, end: null });
+  expect(parseCompactRange('zzzzzzzzzzzzzz_1_UTC')).toBeNull();
+  expect(parseCompactRange(toCompactRange({ ...range, start: range.end, end: range.start }))).toBeNull();
+});
+
+test('rolling ranges keep their expressions through both forms', () => {
+  const rolling: DateTimeRange = { ...range, relative: { start: 'now-1d/d', end: 'now/d' } };
+  const later = new Date('2024-03-20T15:00:00Z');
+  const expected = { ...rolling, start: new Date('2024-03-19T04:00:00Z'), end: new Date('2024-03-20T04:00:00Z') };
+  expect(toIsoInterval(rolling)).toBe('now-1d/d/now/d[America/New_York]');
+  expect(parseIsoInterval(toIsoInterval(rolling), 'UTC', later)).toEqual(expected);
+  expect(toCompactRange(rolling)).toBe('now-1d.d_now.d_America.New_York');
+  expect(parseCompactRange(toCompactRange(rolling), later)).toEqual(expected);
+  expect(parseIsoInterval('now-1q/now')).toBeNull();
+});
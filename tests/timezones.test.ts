@@ -0,0 +1,28 @@
+import { changeRangeTimezone, formatTimezoneLabel, formatUtcOffset, getSupportedTimezones } from '../src/timezones';
+
+test('getSupportedTimezones lists IANA zones including UTC', () => {
+  const zones = getSupportedTimezones();
+  expect(zones).toContain('UTC');
+  expect(zones).toContain('Europe/Paris');
+});
+
+test('formatTimezoneLabel shows offset and abbreviation', () => {
+  const winter = new Date('2024-01-15T12:00:00Z');
+  expect(formatUtcOffset('Asia/Kolkata', winter)).toBe('UTC+05:30');
+  expect(formatTimezoneLabel('America/New_York', winter)).toBe('America/New York (UTC−05:00, EST)');
+});
+
+test('changeRangeTimezone keeps either the instant or the wall-clock time', () => {
+  const range = { start: new Date('2024-03-01T14:00:00Z'), end: null, timezone: 'America/New_York' };
+  expect(changeRangeTimezone(range, 'Asia/Tokyo', 'instant').start).toEqual(range.start);
+  expect(changeRangeTimezone(range, 'Asia/Tokyo', 'wallClock').start).toEqual(new Date('2024-03-01T00:00:00Z'));
+});
+
+test('changeRangeTimezone settles wall-clock times skipped in the new zone by the DST policy', () => {
+  // 02:30 on the day New York skips from 02:00 to 03:00.
+  const range = { start: new Date('2024-03-10T02:30:00Z'), end: null, timezone: 'UTC' };
+  expect(changeRangeTimezone(range, 'America/New_York', 'wallClock').start).toEqual(new Date('2024-03-10T07:30:00Z')); // 03:30 EDT
+  expect(changeRangeTimezone(range, 'America/New_York', 'wallClock', { gap: 'earlier', overlap: 'earlier' }).start)
+    .toEqual(new Date('2024-03-10T06:30:00Z')); // 01:30 EST
+  expect(changeRangeTimezone(range, 'America/New_York', 'wallClock', { gap: 'reject', overlap: 'earlier' }).start).toEqual(range.start);
+});
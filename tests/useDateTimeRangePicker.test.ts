@@ -0,0 +1,209 @@
+import { renderHook, act } from '@testing-library/react';
+import { useDateTimeRangePicker } from '../src/useDateTimeRangePicker';
+import { DateTimeRange, DstPolicy } from '../src/types';
+
+test('useDateTimeRangePicker exposes day state and selection without any markup', () => {
+  const onChange = vi.fn();
+  const value: DateTimeRange = { start: new Date('2024-03-10T12:00:00Z'), end: null, timezone: 'UTC' };
+  const { result } = renderHook(() => useDateTimeRangePicker({ value, onChange }));
+
+  expect(result.current.calendarMonths).toHaveLength(1);
+  expect(result.current.getApplyProps().disabled).toBe(true);
+
+  act(() => result.current.selectDate(new Date('2024-03-05T12:00:00Z')));
+  expect(onChange).toHaveBeenCalledWith({
+    start: new Date('2024-03-05T12:00:00Z'),
+    end: new Date('2024-03-10T12:00:00Z'),
+    timezone: 'UTC',
+  });
+});
+
+test('useDateTimeRangePicker keeps a derived comparison in step with the primary range', () => {
+  const onChange = vi.fn();
+  const value: DateTimeRange = {
+    start: new Date('2024-03-10T12:00:00Z'),
+    end: null,
+    timezone: 'UTC',
+    comparison: { mode: 'previousPeriod', start: null, end: null },
+  };
+  const { result } = renderHook(() => useDateTimeRangePicker({ value, onChange }));
+
+  act(() => result.current.selectDate(new Date('2024-03-12T12:00:00Z')));
+  expect(onChange).toHaveBeenCalledWith({
+    start: new Date('2024-03-10T12:00:00Z'),
+    end: new Date('2024-03-12T12:00:00Z'),
+    timezone: 'UTC',
+    comparison: { mode: 'previousPeriod', start: new Date('2024-03-08T12:00:00Z'), end: new Date('2024-03-10T12:00:00Z') },
+  });
+});
+
+test('useDateTimeRangePicker resolves rolling presets with the injected clock', () => {
+  const onChange = vi.fn();
+  const now = () => new Date('2024-03-13T15:30:00Z');
+  const value: DateTimeRange = { start: null, end: null, timezone: 'UTC' };
+  const { result } = renderHook(() => useDateTimeRangePicker({ value, onChange, now }));
+  expect(result.current.calendarMonths[0]?.month).toEqual(now());
+
+  act(() => result.current.selectPreset({ label: 'Today so far', relative: { start: 'now/d', end: 'now' } }));
+  expect(onChange).toHaveBeenCalledWith({
+    start: new Date('2024-03-13T00:00:00Z'),
+    end: now(),
+    timezone: 'UTC',
+    relative: { start: 'now/d', end: 'now' },
+  });
+});
+
+test('useDateTimeRangePicker resolves a stored rolling range when it is received', () => {
+  let clock = new Date('2024-03-13T15:30:00Z');
+  const now = () => clock;
+  // Stored a week ago: start and end are what "last 24 hours" meant then.
+  const stored: DateTimeRange = {
+    start: new Date('2024-03-05T09:00:00Z'),
+    end: new Date('2024-03-06T09:00:00Z'),
+    timezone: 'America/New_York',
+    relative: { start: 'now-24h', end: 'now' },
+  };
+  const { result, rerender } = renderHook(({ value }) => useDateTimeRangePicker({ value, now }), { initialProps: { value: stored } });
+  expect(result.current.value).toMatchObject({ start: new Date('2024-03-12T15:30:00Z'), end: clock });
+  expect(result.current.committedValue).toEqual(result.current.value);
+
+  // The same expressions again keep the instants they were resolved to; new ones are resolved afresh.
+  clock = new Date('2024-03-13T16:00:00Z');
+  rerender({ value: { ...stored } });
+  expect(result.current.value.end).toEqual(new Date('2024-03-13T15:30:00Z'));
+  rerender({ value: { ...stored, relative: { start: 'now/d', end: 'now' } } });
+  expect(result.current.value).toMatchObject({ start: new Date('2024-03-13T04:00:00Z'), end: clock });
+  rerender({ value: { ...stored, relative: undefined } });
+  expect(result.current.value.start).toEqual(stored.start);
+});
+
+test('useDateTimeRangePicker applies a received rolling range at the instants it was resolved to', () => {
+  const onChange = vi.fn();
+  const onApply = vi.fn();
+  let clock = new Date('2024-03-13T15:30:00Z');
+  const stored: DateTimeRange = {
+    start: new Date('2024-03-05T09:00:00Z'),
+    end: new Date('2024-03-06T09:00:00Z'),
+    timezone: 'UTC',
+    relative: { start: 'now-24h', end: 'now' },
+  };
+  const { result } = renderHook(() => useDateTimeRangePicker({ value: stored, onChange, onApply, commitMode: 'apply', now: () => clock }));
+  clock = new Date('2024-03-13T16:00:00Z');
+
+  act(() => { result.current.apply(); });
+  const resolved = { ...stored, start: new Date('2024-03-12T15:30:00Z'), end: new Date('2024-03-13T15:30:00Z') };
+  expect(onApply).toHaveBeenCalledWith(resolved);
+  expect(onChange).toHaveBeenCalledWith(resolved);
+});
+
+test('useDateTimeRangePicker loads day metadata per visible month and caches it', async () => {
+  const loadMonthMeta = vi.fn(async ({ month }: { month: number }) =>
+    month === 3 ? { '2024-03-05': { count: 3 }, '2024-03-06': { unavailable: true } } : {});
+  const value: DateTimeRange = { start: null, end: null, timezone: 'UTC' };
+  const { result } = renderHook(() => useDateTimeRangePicker({
+    value,
+    onChange: vi.fn(),
+    now: () => new Date('2024-03-13T12:00:00Z'),
+    loadMonthMeta,
+    getDayMeta: (date) => (date.getUTCDate() === 1 ? { tooltip: 'First' } : undefined),
+  }));
+  expect(result.current.calendarMonths[0]?.loading).toBe(true);
+
+  await act(async () => {});
+  const march = result.current.calendarMonths[0];
+  expect(march?.loading).toBe(false);
+  expect(march?.days[4]?.meta).toEqual({ count: 3 });
+  expect(march?.days[5]?.disabled).toBe(true);
+  expect(march?.days[0]?.meta).toEqual({ tooltip: 'First' });
+  expect(loadMonthMeta).toHaveBeenCalledWith({ year: 2024, month: 3, timezone: 'UTC' }, expect.any(AbortSignal));
+
+  act(() => result.current.goToNextMonth());
+  await act(async () => {});
+  act(() => result.current.goToPreviousMonth());
+  expect(result.current.calendarMonths[0]?.loading).toBe(false);
+  expect(loadMonthMeta).toHaveBeenCalledTimes(2);
+});
+
+test('useDateTimeRangePicker selects whole quarters and drills down from years', () => {
+  const onChange = vi.fn();
+  const now = () => new Date('2024-05-15T12:00:00Z');
+  const value: DateTimeRange = { start: null, end: null, timezone: 'UTC' };
+  const { result, rerender } = renderHook(
+    (props: { value: DateTimeRange }) => useDateTimeRangePicker({ ...props, onChange, now, granularity: 'quarter' }),
+    { initialProps: { value } }
+  );
+  expect(result.current.view).toBe('quarter');
+  expect(result.current.periods.map(period => period.label)).toEqual(['Q1', 'Q2', 'Q3', 'Q4']);
+
+  act(() => result.current.getPeriodProps(result.current.periods[2]!).onClick());
+  const firstClick = onChange.mock.lastCall[0] as DateTimeRange;
+  expect(firstClick.start).toEqual(new Date('2024-07-01T00:00:00Z'));
+  rerender({ value: firstClick });
+  act(() => result.current.getPeriodProps(result.current.periods[0]!).onClick());
+  expect(onChange).toHaveBeenLastCalledWith({
+    start: new Date('2024-01-01T00:00:00Z'),
+    end: new Date('2024-09-30T23:59:00Z'),
+    timezone: 'UTC',
+  });
+
+  act(() => result.current.zoomOut());
+  expect(result.current.view).toBe('year');
+  expect(result.current.viewTitle).toBe('2020 – 2029');
+  act(() => result.current.getPeriodProps(result.current.periods[6]!).onClick());
+  expect(result.current.view).toBe('quarter');
+  expect(result.current.viewTitle).toBe('2026');
+  expect(result.current.canZoomOut).toBe(true);
+});
+
+test('useDateTimeRangePicker numbers the weeks of each month', () => {
+  const value: DateTimeRange = { start: null, end: null, timezone: 'UTC' };
+  const { result } = renderHook(() =>
+    useDateTimeRangePicker({ value, onChange: vi.fn(), now: () => new Date('2024-01-10T12:00:00Z'), granularity: 'week' }));
+  // January 2024 starts on a Monday: ISO weeks 1 to 5.
+  expect(result.current.calendarMonths[0]?.weekNumbers).toEqual([1, 2, 3, 4, 5]);
+});
+
+test('useDateTimeRangePicker snaps typed minutes to minuteStep on blur', () => {
+  const onChange = vi.fn();
+  const value: DateTimeRange = { start: new Date('2024-03-10T09:07:00Z'), end: null, timezone: 'UTC' };
+  const { result } = renderHook(() => useDateTimeRangePicker({ value, onChange, minuteStep: 15 }));
+  expect(result.current.startTime).toEqual({ hour: 9, minute: 7, second: 0, millisecond: 0 });
+  expect(result.current.getTimeInputProps('end', 'hour').disabled).toBe(true);
+
+  act(() => result.current.getTimeInputProps('start', 'minute').onChange({ target: { value: '07' } } as React.ChangeEvent<HTMLInputElement>));
+  act(() => result.current.getTimeInputProps('start', 'minute').onBlur());
+  expect(onChange).toHaveBeenLastCalledWith({ ...value, start: new Date('2024-03-10T09:00:00Z'), relative: undefined });
+});
+
+test('useDateTimeRangePicker keeps the wall-clock time across zones by dstPolicy', () => {
+  const onChange = vi.fn();
+  const value: DateTimeRange = { start: new Date('2024-03-10T02:30:00Z'), end: null, timezone: 'UTC' };
+  const dstPolicy: DstPolicy = { gap: 'earlier', overlap: 'earlier' };
+  const { result } = renderHook(() => useDateTimeRangePicker({ value, onChange, timezoneChangeMode: 'wallClock', dstPolicy }));
+  act(() => result.current.getTimezoneSelectProps().onChange('America/New_York'));
+  // 02:30 is skipped in New York that night; 'earlier' gives 01:30 EST rather than the default 03:30 EDT.
+  expect(onChange).toHaveBeenLastCalledWith({ ...value, start: new Date('2024-03-10T06:30:00Z'), comparison: undefined, timezone: 'America/New_York' });
+});
+
+test('useDateTimeRangePicker resolves skipped and repeated times by dstPolicy and explains them', () => {
+  const onChange = vi.fn();
+  const tz = 'America/New_York';
+  let value: DateTimeRange = { start: new Date('2024-03-10T06:00:00Z'), end: new Date('2024-11-03T05:30:00Z'), timezone: tz };
+  const { result, rerender } = renderHook((dstPolicy: DstPolicy) => useDateTimeRangePicker({ value, onChange, dstPolicy }),
+    { initialProps: { gap: 'later', overlap: 'earlier' } });
+  // 01:30 on Nov 3 happens twice; the value is the first (EDT) one.
+  expect(result.current.timeHints.end).toBe('This time happens twice because of a clock change; using UTC−04:00');
+  expect(result.current.timeHints.start).toBeNull();
+
+  // 02:30 on Mar 10 is skipped and moves forward by the length of the gap.
+  act(() => result.current.setTimeParts('start', { hour: 2, minute: 30 }));
+  value = { ...value, start: new Date('2024-03-10T07:30:00Z'), relative: undefined }; // 03:30 EDT
+  expect(onChange).toHaveBeenLastCalledWith(value);
+  rerender({ gap: 'later', overlap: 'earlier' });
+  expect(result.current.timeHints.start).toBe('The clocks skip this time; moved to 03:30');
+
+  rerender({ gap: 'reject', overlap: 'earlier' });
+  act(() => result.current.setTimeParts('start', { hour: 2, minute: 15 }));
+  expect(onChange).toHaveBeenCalledTimes(1);
+  expect(result.current.timeHints.start).toBe('This time is skipped or repeated by a clock change; pick another');
+});
@@ -0,0 +1,48 @@
+import { renderHook, act } from '@testing-library/react';
+import { useRangeValidation } from '../src/useRangeValidation';
+import { Constraints, DateTimeRange, ValidationError } from '../src/types';
+
+const range: DateTimeRange = {
+  start: new Date('2024-03-01T09:00:00Z'),
+  end: new Date('2024-03-01T17:00:00Z'),
+  timezone: 'UTC',
+};
+
+const booked: ValidationError = { code: 'booked', field: 'range', params: {}, message: 'Already booked' };
+
+test('useRangeValidation stays pending until async validators settle', async () => {
+  let resolve: (errors: ValidationError[]) => void = () => {};
+  const constraints: Constraints = { validators: [() => new Promise(r => { resolve = r; })] };
+  const { result } = renderHook(() => useRangeValidation(range, constraints));
+  expect(result.current).toEqual({ errors: [], pending: true });
+
+  await act(async () => resolve([booked]));
+  expect(result.current).toEqual({ errors: [booked], pending: false });
+});
+
+test('useRangeValidation aborts validators for a range that changed', async () => {
+  const signals: AbortSignal[] = [];
+  const resolvers: ((errors: ValidationError[]) => void)[] = [];
+  const constraints: Constraints = {
+    validators: [(_, signal) => {
+      signals.push(signal);
+      return new Promise(r => resolvers.push(r));
+    }],
+  };
+  const { result, rerender } = renderHook(({ value }) => useRangeValidation(value, constraints), { initialProps: { value: range } });
+  rerender({ value: { ...range, end: new Date('2024-03-01T18:00:00Z') } });
+  expect(signals[0]?.aborted).toBe(true);
+
+  await act(async () => resolvers[0]?.([booked])); // Stale result is ignored
+  expect(result.current.pending).toBe(true);
+  await act(async () => resolvers[1]?.([]));
+  expect(result.current).toEqual({ errors: [], pending: false });
+});
+
+test('useRangeValidation skips custom validators while a built-in check fails', () => {
+  const validate = vi.fn(() => []);
+  const constraints: Constraints = { maxDuration: 60 * 60 * 1000, validators: [validate] };
+  const { result } = renderHook(() => useRangeValidation(range, constraints));
+  expect(result.current.errors.map(error => error.code)).toEqual(['maxDuration']);
+  expect(validate).not.toHaveBeenCalled();
+});
@@ -0,0 +1,60 @@
+import { renderHook, act } from '@testing-library/react';
+import { toPreset, useSavedPresets } from '../src/useSavedPresets';
+import { createMemoryAdapter } from '../src/useRangeSync';
+import { DateTimeRange } from '../src/types';
+
+const range: DateTimeRange = {
+  start: new Date('2024-03-01T14:00:00Z'),
+  end: new Date('2024-03-01T22:00:00Z'),
+  timezone: 'America/New_York',
+};
+
+test('useSavedPresets saves, renames and deletes presets through the adapter', () => {
+  const adapter = createMemoryAdapter();
+  const { result } = renderHook(() => useSavedPresets(adapter));
+
+  act(() => result.current.savePreset('Workday', range));
+  act(() => result.current.savePreset('Last week', { ...range, relative: { start: 'now-7d/d', end: 'now/d' } }));
+  const [workday, lastWeek] = result.current.presets;
+  expect(workday).toMatchObject({ label: 'Workday', range: '2024-03-01T09:00:00-05:00/2024-03-01T17:00:00-05:00[America/New_York]' });
+  expect(lastWeek).toMatchObject({ label: 'Last week', range: 'now-7d/d/now/d[America/New_York]' });
+
+  act(() => result.current.renamePreset(workday!.id, 'Office hours'));
+  act(() => result.current.deletePreset(lastWeek!.id));
+  expect(result.current.presets.map(preset => preset.label)).toEqual(['Office hours']);
+
+  // A second picker on the same storage starts from what was saved.
+  const { result: other } = renderHook(() => useSavedPresets(adapter));
+  expect(other.current.presets).toEqual(result.current.presets);
+});
+
+test('useSavedPresets keeps the most recent distinct ranges, newest first', () => {
+  const { result } = renderHook(() => useSavedPresets(createMemoryAdapter(), { recentLimit: 2 }));
+  const later = { ...range, start: new Date('2024-03-02T14:00:00Z'), end: new Date('2024-03-02T22:00:00Z') };
+  act(() => result.current.addRecent(range));
+  act(() => result.current.addRecent(later));
+  act(() => result.current.addRecent(range));
+  act(() => result.current.addRecent({ ...range, end: null }));
+  expect(result.current.recent).toEqual([
+    '2024-03-01T09:00:00-05:00/2024-03-01T17:00:00-05:00[America/New_York]',
+    '2024-03-02T09:00:00-05:00/2024-03-02T17:00:00-05:00[America/New_York]',
+  ]);
+
+  act(() => result.current.addRecent({ ...range, relative: { start: 'now-24h', end: 'now' } }));
+  expect(result.current.recent).toHaveLength(2);
+  expect(result.current.recent[0]).toBe('now-24h/now[America/New_York]');
+});
+
+test('useSavedPresets treats unreadable storage as empty', () => {
+  const { result } = renderHook(() => useSavedPresets(createMemoryAdapter('{"presets": [{"label": 1}], "recent": "x"')));
+  expect(result.current.presets).toEqual([]);
+  expect(result.current.recent).toEqual([]);
+  expect(renderHook(() => useSavedPresets(createMemoryAdapter('not json'))).result.current.presets).toEqual([]);
+});
+
+test('toPreset keeps rolling ranges rolling and fixed ranges fixed', () => {
+  expect(toPreset('Today', 'now/d/now[UTC]')).toEqual({ label: 'Today', relative: { start: 'now/d', end: 'now' } });
+  expect(toPreset('Workday', '2024-03-01T09:00:00-05:00/2024-03-01T17:00:00-05:00[America/New_York]')?.getRange?.(new Date(), 'UTC'))
+    .toEqual({ start: range.start, end: range.end });
+  expect(toPreset('Broken', 'nonsense')).toBeNull();
+});
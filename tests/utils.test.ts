@@ -1,4 +1,7 @@
-import { getCalendarDays, isDateDisabled, validateRange } from '../src/utils';
+import {
+  clampToAllowedTime, fromWallTime, formatInTimezone, getCalendarDays, getComparisonRange, getDayBounds, getPeriodBounds, getUnavailableIntervals, getUtcOffset,
+  isDateDisabled, mergeRanges, resolveWallTime, toWallTime, validateRange,
+} from '../src/utils';
 import { addDays } from 'date-fns';
 
 test('getCalendarDays returns correct days', () => {
@@ -13,7 +16,228 @@ test('isDateDisabled respects constraints', () => {
 
 test('validateRange checks duration', () => {
   const constraints = { minDuration: 1000 * 60 * 60 };
-  const error = validateRange(new Date(), addDays(new Date(), 1), constraints);
-  expect(error).toBeNull();
+  expect(validateRange(new Date(), addDays(new Date(), 1), constraints)).toEqual([]);
+  expect(validateRange(new Date('2024-03-01T10:00:00Z'), new Date('2024-03-01T10:30:00Z'), constraints)).toEqual([
+    { code: 'minDuration', field: 'range', params: { minutes: 60 } },
+  ]);
 });
 
+test('validateRange reports which endpoint breaks min, max and blackouts', () => {
+  const constraints = { min: new Date('2024-03-01T00:00:00Z'), max: new Date('2024-03-31T00:00:00Z'), blackouts: [new Date('2024-03-10T12:00:00Z')] };
+  expect(validateRange(new Date('2024-02-28T12:00:00Z'), new Date('2024-03-10T12:00:00Z'), constraints, 'UTC')).toEqual([
+    { code: 'beforeMin', field: 'start', params: { min: constraints.min } },
+    { code: 'unavailableDate', field: 'end', params: {} },
+  ]);
+  expect(validateRange(null, new Date('2024-04-02T12:00:00Z'), constraints, 'UTC')).toEqual([
+    { code: 'afterMax', field: 'end', params: { max: constraints.max } },
+  ]);
+  expect(validateRange(new Date('2024-03-05T00:00:00Z'), new Date('2024-03-04T00:00:00Z'), constraints, 'UTC')).toEqual([
+    { code: 'endBeforeStart', field: 'range', params: {} },
+  ]);
+});
+
+test('isDateDisabled applies recurring blackout rules', () => {
+  const constraints = {
+    blackoutRules: [
+      { type: 'weekdays' as const, days: [0, 6] },
+      { type: 'annual' as const, month: 12, day: 25 },
+      { type: 'nthWeekday' as const, weekday: 1, nth: 1 },
+    ],
+  };
+  expect(isDateDisabled(new Date('2024-03-09T17:00:00Z'), constraints, 'UTC')).toBe(true); // Saturday
+  expect(isDateDisabled(new Date('2024-12-25T17:00:00Z'), constraints, 'UTC')).toBe(true);
+  expect(isDateDisabled(new Date('2024-04-01T17:00:00Z'), constraints, 'UTC')).toBe(true); // First Monday
+  expect(isDateDisabled(new Date('2024-04-08T17:00:00Z'), constraints, 'UTC')).toBe(false);
+});
+
+test('isDateDisabled only disables days fully covered by a blackout interval', () => {
+  const constraints = {
+    blackoutIntervals: [
+      { start: new Date('2024-03-05T00:00:00Z'), end: new Date('2024-03-06T00:00:00Z') },
+      { start: new Date('2024-03-07T12:00:00Z'), end: new Date('2024-03-07T14:00:00Z') },
+    ],
+  };
+  expect(isDateDisabled(new Date('2024-03-05T12:00:00Z'), constraints, 'UTC')).toBe(true);
+  expect(isDateDisabled(new Date('2024-03-07T12:00:00Z'), constraints, 'UTC')).toBe(false);
+});
+
+test('validateRange rejects ranges over blackout intervals unless allowed', () => {
+  const blackoutIntervals = [{ start: new Date('2024-03-07T12:00:00Z'), end: new Date('2024-03-07T14:00:00Z') }];
+  const start = new Date('2024-03-07T09:00:00Z');
+  const end = new Date('2024-03-07T17:00:00Z');
+  expect(validateRange(start, end, { blackoutIntervals })).toEqual([{ code: 'overlapsBlackout', field: 'range', params: {} }]);
+  expect(validateRange(start, end, { blackoutIntervals, allowBlackoutsInRange: true })).toEqual([]);
+  expect(validateRange(start, new Date('2024-03-07T13:00:00Z'), { blackoutIntervals, allowBlackoutsInRange: true }))
+    .toEqual([{ code: 'inBlackout', field: 'end', params: {} }]);
+  expect(validateRange(start, new Date('2024-03-07T12:00:00Z'), { blackoutIntervals })).toEqual([]);
+});
+
+test('allowedTimes constrain start and end to business hours in the range timezone', () => {
+  const constraints = { allowedTimes: [{ days: [1, 2, 3, 4, 5], start: '09:00', end: '17:30' }] };
+  const tz = 'America/New_York';
+  const start = new Date('2024-03-06T14:00:00Z'); // Wed 09:00 EST
+  expect(validateRange(start, new Date('2024-03-06T22:30:00Z'), constraints, tz)).toEqual([]);
+  expect(validateRange(start, new Date('2024-03-06T22:45:00Z'), constraints, tz)).toEqual([{ code: 'outsideAllowedHours', field: 'end', params: {} }]);
+  expect(validateRange(new Date('2024-03-06T13:00:00Z'), start, constraints, tz)).toEqual([{ code: 'outsideAllowedHours', field: 'start', params: {} }]);
+  expect(isDateDisabled(new Date('2024-03-09T17:00:00Z'), constraints, tz)).toBe(true); // Saturday has no window
+});
+
+test('clampToAllowedTime snaps to the nearest window edge', () => {
+  const constraints = { allowedTimes: [{ days: [3], start: '09:00', end: '17:30' }] };
+  expect(clampToAllowedTime(new Date('2024-03-06T07:15:00Z'), constraints, 'UTC')).toEqual(new Date('2024-03-06T09:00:00Z'));
+  expect(clampToAllowedTime(new Date('2024-03-06T20:00:00Z'), constraints, 'UTC')).toEqual(new Date('2024-03-06T17:30:00Z'));
+});
+
+test('getComparisonRange derives the previous period and the same period last year', () => {
+  const tz = 'America/New_York';
+  const start = new Date('2024-03-08T05:00:00Z'); // Mar 8 00:00
+  const end = new Date('2024-03-15T03:59:00Z'); // Mar 14 23:59
+  expect(getComparisonRange(start, end, 'previousPeriod', tz)).toEqual({
+    start: new Date('2024-03-01T05:00:00Z'),
+    end: new Date('2024-03-08T04:59:00Z'),
+  });
+  expect(getComparisonRange(start, end, 'previousYear', tz)).toEqual({
+    start: new Date('2023-03-08T05:00:00Z'),
+    end: new Date('2023-03-15T03:59:00Z'),
+  });
+});
+
+test('mergeRanges sorts ranges and joins overlapping or touching ones', () => {
+  const at = (day: number, hour: number) => new Date(Date.UTC(2024, 2, day, hour));
+  expect(mergeRanges([
+    { start: at(5, 9), end: at(5, 17) },
+    { start: at(1, 9), end: at(2, 9) },
+    { start: at(2, 9), end: at(3, 9) },
+    { start: at(5, 12), end: at(5, 14) },
+  ])).toEqual([
+    { start: at(1, 9), end: at(3, 9) },
+    { start: at(5, 9), end: at(5, 17) },
+  ]);
+});
+
+test('getPeriodBounds covers whole weeks, quarters and years in the range timezone', () => {
+  const tz = 'America/New_York';
+  const date = new Date('2024-05-15T16:00:00Z'); // Wednesday, noon EDT
+  expect(getPeriodBounds(date, 'week', tz)).toEqual({
+    start: new Date('2024-05-13T04:00:00Z'),
+    end: new Date('2024-05-20T03:59:00Z'), // Sunday 23:59 EDT
+  });
+  expect(getPeriodBounds(date, 'quarter', tz)).toEqual({
+    start: new Date('2024-04-01T04:00:00Z'),
+    end: new Date('2024-07-01T03:59:00Z'),
+  });
+  expect(getPeriodBounds(date, 'year', tz)).toEqual({
+    start: new Date('2024-01-01T05:00:00Z'), // EST
+    end: new Date('2025-01-01T04:59:00Z'),
+  });
+});
+
+// Property-style checks of the DST handling, over zones with unusual rules: southern-hemisphere DST,
+// midnight changes, 30-minute shifts, negative DST and none at all.
+const ZONES = [
+  'UTC', 'America/New_York', 'America/Santiago', 'America/Sao_Paulo', 'America/St_Johns', 'America/Havana',
+  'Europe/London', 'Europe/Dublin', 'Europe/Berlin', 'Africa/Casablanca', 'Asia/Tehran', 'Asia/Kolkata',
+  'Australia/Sydney', 'Australia/Lord_Howe', 'Pacific/Auckland', 'Pacific/Chatham',
+];
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// The start of every six-hour stretch of 2024 in which the zone's offset changes.
+const findTransitions = (tz: string) => {
+  const found: number[] = [];
+  for (let t = Date.UTC(2024, 0, 1); t < Date.UTC(2025, 0, 1); t += 6 * HOUR) {
+    if (getUtcOffset(new Date(t), tz) !== getUtcOffset(new Date(t + 6 * HOUR), tz)) found.push(t);
+  }
+  return found;
+};
+const TRANSITIONS = ZONES.map(tz => ({ tz, transitions: findTransitions(tz) }));
+
+// Every quarter hour from half a day before a transition to half a day after it.
+const around = (t: number) => Array.from({ length: 4 * 30 }, (_, i) => t - 12 * HOUR + i * 15 * MINUTE);
+
+test('every instant near a DST change reads back to itself', () => {
+  TRANSITIONS.forEach(({ tz, transitions }) => transitions.forEach(t => around(t).forEach(instant => {
+    const { kind, earlier, later } = resolveWallTime(toWallTime(new Date(instant), tz), tz);
+    expect(kind).not.toBe('gap');
+    expect([earlier.getTime(), later.getTime()]).toContain(instant);
+  })));
+});
+
+test('every wall time near a DST change resolves by the policy', () => {
+  const kinds = { exact: 0, gap: 0, overlap: 0 };
+  TRANSITIONS.forEach(({ tz, transitions }) => transitions.forEach(t => around(t).forEach(instant => {
+    const wall = instant + getUtcOffset(new Date(t), tz); // Wall times on either side of the change
+    const { kind, earlier, later } = resolveWallTime(wall, tz);
+    kinds[kind]++;
+    const shift = later.getTime() - earlier.getTime();
+    if (kind === 'exact') {
+      expect(shift).toBe(0);
+      expect(toWallTime(earlier, tz)).toBe(wall);
+    } else if (kind === 'overlap') {
+      expect(shift).toBeGreaterThan(0);
+      expect(toWallTime(earlier, tz)).toBe(wall);
+      expect(toWallTime(later, tz)).toBe(wall);
+    } else {
+      // Skipped: the candidates sit on either side of the gap, moved by its length.
+      expect(shift).toBeGreaterThan(0);
+      expect(toWallTime(later, tz)).toBe(wall + shift);
+      expect(toWallTime(earlier, tz)).toBe(wall - shift);
+    }
+    const policy = { gap: 'reject', overlap: 'later' } as const;
+    expect(fromWallTime(wall, tz, policy)).toEqual(kind === 'gap' ? null : later);
+    expect(fromWallTime(wall, tz)).toEqual(kind === 'gap' ? later : earlier);
+  })));
+  expect(kinds.gap).toBeGreaterThan(0);
+  expect(kinds.overlap).toBeGreaterThan(0);
+});
+
+test('calendar days and day bounds stay on their date in every zone', () => {
+  ZONES.forEach(tz => {
+    for (let month = 0; month < 12; month++) {
+      getCalendarDays(2024, month, tz).forEach((day, i) => {
+        const date = `2024-${String(month + 1).padStart(2, '0')}-${String(i + 1).padStart(2, '0')}`;
+        expect(formatInTimezone(day, tz, 'yyyy-MM-dd HH:mm')).toBe(`${date} 12:00`);
+        const bounds = getDayBounds(day, tz);
+        expect(formatInTimezone(bounds.start, tz, 'yyyy-MM-dd')).toBe(date);
+        expect(formatInTimezone(new Date(bounds.end.getTime() - 1), tz, 'yyyy-MM-dd')).toBe(date);
+        expect(getDayBounds(bounds.end, tz).start).toEqual(bounds.end);
+        expect(bounds.end.getTime() - bounds.start.getTime()).toBeGreaterThanOrEqual(23 * HOUR);
+        expect(bounds.end.getTime() - bounds.start.getTime()).toBeLessThanOrEqual(25 * HOUR);
+      });
+    }
+  });
+});
+
+test('days and periods follow the clock in Sydney and Santiago', () => {
+  // Sydney springs forward at 02:00 on Oct 6, 2024: a 23-hour day.
+  const sydney = getDayBounds(new Date('2024-10-06T01:00:00Z'), 'Australia/Sydney');
+  expect(sydney).toEqual({ start: new Date('2024-10-05T14:00:00Z'), end: new Date('2024-10-06T13:00:00Z') });
+  // Santiago skips midnight on Sep 8, 2024, so that day starts at 01:00.
+  const santiago = getDayBounds(new Date('2024-09-08T12:00:00Z'), 'America/Santiago');
+  expect(formatInTimezone(santiago.start, 'America/Santiago', 'yyyy-MM-dd HH:mm')).toBe('2024-09-08 01:00');
+  // The week of Sep 2 starts on standard time and ends on summer time.
+  expect(getPeriodBounds(new Date('2024-09-04T12:00:00Z'), 'week', 'America/Santiago')).toEqual({
+    start: new Date('2024-09-02T04:00:00Z'), // Mon 00:00 -04
+    end: new Date('2024-09-09T02:59:00Z'), // Sun 23:59 -03
+  });
+});
+
+test('getUnavailableIntervals covers disabled days, blackouts and the hours outside each window', () => {
+  const tz = 'America/New_York';
+  // Friday Mar 8 and the weekend; Sunday is the 23-hour day the clocks go forward.
+  const span = { start: new Date('2024-03-08T05:00:00Z'), end: new Date('2024-03-11T04:00:00Z') };
+  const intervals = getUnavailableIntervals(span, {
+    allowedTimes: [{ days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' }],
+    blackoutIntervals: [{ start: new Date('2024-03-08T16:00:00Z'), end: new Date('2024-03-08T17:00:00Z') }],
+    max: new Date('2024-03-10T12:00:00Z'),
+  }, tz);
+  expect(intervals.map(({ start, end, kind }) => [start.toISOString(), end.toISOString(), kind])).toEqual([
+    ['2024-03-08T05:00:00.000Z', '2024-03-08T14:00:00.000Z', 'disallowed'], // Friday before 09:00
+    ['2024-03-08T22:01:00.000Z', '2024-03-09T05:00:00.000Z', 'disallowed'], // and after 17:00
+    ['2024-03-09T05:00:00.000Z', '2024-03-10T05:00:00.000Z', 'blackout'], // No window on Saturday
+    ['2024-03-10T05:00:00.000Z', '2024-03-11T04:00:00.000Z', 'blackout'], // or Sunday
+    ['2024-03-10T12:00:00.000Z', '2024-03-11T04:00:00.000Z', 'disallowed'], // After max
+    ['2024-03-08T16:00:00.000Z', '2024-03-08T17:00:00.000Z', 'blackout'],
+  ]);
+  expect(getUnavailableIntervals(span, undefined, tz)).toEqual([]);
+});